@@ -1,11 +1,17 @@
 import * as vscode from "vscode";
+import { randomUUID } from "crypto";
 
 import {
+  BackgroundNotebookWriter,
   choosePrompt,
+  convertCell,
   editCell,
+  editsToReplaceReply,
   getActiveCell,
   getNotebookLanguage,
   NotebookWriter,
+  ReplyWriter,
+  showAlternative,
 } from "./lib/notebooks";
 
 import { BotResponse, CANCELLED, checkCueLabel } from "./lib/botresponse";
@@ -13,7 +19,27 @@ import { Reader } from "./lib/streams";
 import { decorateWhileEmpty } from "./lib/editors";
 import * as llm from "./lib/llm";
 import { ChildExitError } from "./lib/processes";
-import { extraArgsChangedFromDefault, getConfig } from "./lib/config";
+import {
+  applyOverrides,
+  extraArgsChangedFromDefault,
+  getConfig,
+  getLanguageRegistry,
+  ReplyOverrides,
+} from "./lib/config";
+import { TempAttachments } from "./lib/attachments";
+import { ChatApiError, ChatService } from "./lib/chatapi";
+import { CodeBlockPolicy } from "./lib/codeblocks";
+import { expandCue } from "./lib/cues";
+import { makeProvenance } from "./lib/provenance";
+import { RepliesInProgress, ReplyProgress } from "./lib/replyprogress";
+import { findReply, findReplyCells } from "./lib/replies";
+import { askToRun, executeCell } from "./lib/agent";
+import {
+  getAlternatives,
+  getBotMetadata,
+  updateBotMetadata,
+} from "./lib/cellmetadata";
+import { BotCellStatusProvider, HiddenCellDimmer } from "./lib/cellstatus";
 
 export function activate(context: vscode.ExtensionContext) {
   const push = context.subscriptions.push.bind(context.subscriptions);
@@ -27,7 +53,13 @@ export function activate(context: vscode.ExtensionContext) {
   };
 
   const services = new Map<string, llm.Service>();
-  const getService = (languageId: string) => {
+  const getService = (languageId: string, overrides?: ReplyOverrides) => {
+    if (overrides) {
+      // Not cached, since it's only for one reply.
+      const config = applyOverrides(getConfig(languageId), overrides);
+      return new llm.Service(config, getOutput);
+    }
+
     let service = services.get(languageId);
     if (service) {
       return service;
@@ -39,10 +71,45 @@ export function activate(context: vscode.ExtensionContext) {
     return service;
   };
 
+  const chatServices = new Map<string, ChatService>();
+  const getChatService = (languageId: string, overrides?: ReplyOverrides) => {
+    if (overrides) {
+      const config = applyOverrides(getConfig(languageId), overrides);
+      return new ChatService({ ...config, ...config.chatApi }, getOutput);
+    }
+
+    let service = chatServices.get(languageId);
+    if (service) {
+      return service;
+    }
+
+    const config = getConfig(languageId);
+    service = new ChatService({ ...config, ...config.chatApi }, getOutput);
+    chatServices.set(languageId, service);
+    return service;
+  };
+
+  const replies = new RepliesInProgress();
+
+  // The settings that both kinds of service are configured from.
+  // (The stop sequence depends on the prompt format and what to do with
+  // invented output, and the default system prompt depends on the languages.)
+  const serviceSettings = [
+    "bot-typist.llm",
+    "bot-typist.prompt",
+    "bot-typist.reply",
+    "bot-typist.languages",
+  ];
+
   push(vscode.workspace.onDidChangeConfiguration((event) => {
-    if (event.affectsConfiguration("bot-typist.llm")) {
+    const affects = (sections: string[]) =>
+      sections.some((section) => event.affectsConfiguration(section));
+    if (affects(serviceSettings)) {
       services.clear();
     }
+    if (affects([...serviceSettings, "bot-typist.chatApi"])) {
+      chatServices.clear();
+    }
   }));
 
   push(vscode.commands.registerCommand(
@@ -52,12 +119,125 @@ export function activate(context: vscode.ExtensionContext) {
 
   push(vscode.commands.registerCommand(
     "bot-typist.insert-reply",
-    () => insertBotReply(getService),
+    () => insertBotReply(getService, getChatService, replies),
+  ));
+  const regenerate = async (overrides?: ReplyOverrides) => {
+    const ok = await regenerateBotReply(
+      getService,
+      getChatService,
+      replies,
+      overrides,
+    );
+    // Show the new number of replies.
+    cellStatus.refresh();
+    return ok;
+  };
+
+  push(vscode.commands.registerCommand(
+    "bot-typist.regenerate-reply",
+    (arg?: unknown) => {
+      // Keybindings can pass overrides, such as {"temperature": 1}.
+      const overrides = typeof arg === "object" && arg !== null &&
+          ("model" in arg || "temperature" in arg)
+        ? arg as ReplyOverrides
+        : undefined;
+      return regenerate(overrides);
+    },
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.regenerate-reply-with-options",
+    async () => {
+      const overrides = await askForOverrides();
+      if (!overrides) {
+        return false;
+      }
+      return regenerate(overrides);
+    },
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.continue-reply",
+    () => continueBotReply(getService, getChatService, replies),
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.remove-reply",
+    removeBotReply,
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.stop-reply",
+    (arg?: unknown) => {
+      const reply = arg instanceof ReplyProgress ? arg : undefined;
+      if (!replies.stop(reply)) {
+        vscode.window.showInformationMessage("The bot isn't replying.");
+        return false;
+      }
+      return true;
+    },
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.insert-reply-and-run",
+    () => insertReplyAndRun(getService, getChatService, replies),
   ));
   push(vscode.commands.registerCommand(
     "bot-typist.show-prompt",
     showBotPrompt,
   ));
+
+  const cellStatus = new BotCellStatusProvider();
+  push(vscode.notebooks.registerNotebookCellStatusBarItemProvider(
+    "jupyter-notebook",
+    cellStatus,
+  ));
+
+  const dimmer = new HiddenCellDimmer();
+  push(dimmer);
+
+  const toggle = (key: "hidden" | "pinned") =>
+  async (arg?: vscode.NotebookCell): Promise<boolean> => {
+    const cell = arg ?? getActiveCell();
+    if (!cell) {
+      vscode.window.showInformationMessage("Please select a notebook cell.");
+      return false;
+    }
+    const value = getBotMetadata(cell)[key] ? undefined : true;
+    if (!await updateBotMetadata(cell, { [key]: value })) {
+      return false;
+    }
+    cellStatus.refresh();
+    dimmer.refresh();
+    return true;
+  };
+
+  const cycleReply = (delta: number) =>
+  async (arg?: vscode.NotebookCell): Promise<boolean> => {
+    const cell = arg ?? getActiveCell();
+    if (!cell) {
+      vscode.window.showInformationMessage("Please select a notebook cell.");
+      return false;
+    }
+    if (!await showAdjacentReply(cell, delta)) {
+      return false;
+    }
+    cellStatus.refresh();
+    return true;
+  };
+
+  push(vscode.commands.registerCommand(
+    "bot-typist.previous-reply",
+    cycleReply(-1),
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.next-reply",
+    cycleReply(1),
+  ));
+
+  push(vscode.commands.registerCommand(
+    "bot-typist.toggle-hidden",
+    toggle("hidden"),
+  ));
+  push(vscode.commands.registerCommand(
+    "bot-typist.toggle-pinned",
+    toggle("pinned"),
+  ));
 }
 
 export function deactivate() {}
@@ -111,11 +291,35 @@ async function createJupyterNotebookForChat(): Promise<boolean> {
   return true;
 }
 
-/** If in a notebook cell, inserts cells below with the bot's reply. */
+type GetService = (
+  languageId: string,
+  overrides?: ReplyOverrides,
+) => llm.Service;
+
+type GetChatService = (
+  languageId: string,
+  overrides?: ReplyOverrides,
+) => ChatService;
+
+/**
+ * If in a notebook cell, inserts cells below with the bot's reply.
+ *
+ * @param target the cell to reply to, if not the active cell, and any settings
+ * to change for this reply.
+ */
 async function insertBotReply(
-  getService: (languageId: string) => llm.Service,
+  getService: GetService,
+  getChatService: GetChatService,
+  replies: RepliesInProgress,
+  target?: {
+    cell: vscode.NotebookCell;
+    overrides?: ReplyOverrides;
+
+    /** If true, the cell is part of a reply that was cut off, and is appended to. */
+    continueCell?: boolean;
+  },
 ): Promise<boolean> {
-  const cell = getActiveCell();
+  const cell = target?.cell ?? getActiveCell();
   if (!cell) {
     vscode.window.showInformationMessage(
       "Please select a notebook cell.",
@@ -123,26 +327,36 @@ async function insertBotReply(
     return false;
   }
 
-  const prompt = choosePrompt(cell);
-  if (!prompt) {
+  const languageId = getNotebookLanguage(cell, getLanguageRegistry());
+  const overrides = target?.overrides;
+  const config = applyOverrides(getConfig(languageId), overrides ?? {});
+
+  const continuing = target?.continueCell ?? false;
+  const prompt = choosePrompt(cell, config, continuing);
+  if (!prompt.text) {
     vscode.window.showInformationMessage(
       "Please type a question or choose a non-empty cell.",
     );
     return false;
   }
 
-  const languageId = getNotebookLanguage(cell);
-  const service = getService(languageId);
-  const llmPath = await service.checkCommandPath();
-  if (!llmPath) {
+  const useChatApi = config.backend === "chat-api";
+  const service = getService(languageId, overrides);
+  const chatService = getChatService(languageId, overrides);
+  if (useChatApi) {
+    const msg = chatService.check();
+    if (msg) {
+      showSettingsError(msg, "bot-typist.chatApi");
+      return false;
+    }
+  } else if (!await service.checkCommandPath()) {
     const msg =
       "Can't run the llm command. Please check that its path is set correctly in settings.";
     showSettingsError(msg, "bot-typist.llm");
     return false;
   }
 
-  const cue = getConfig(languageId).cue;
-  if (!await checkCueLabel(cue)) {
+  if (!await checkCueLabel(config.cue)) {
     showSettingsError(
       "Sorry, the cue you chose isn't supported yet.",
       "bot-typist.cue",
@@ -150,23 +364,96 @@ async function insertBotReply(
     return false;
   }
 
-  const handleBotReply = async (input: Reader) => {
-    const writer = new NotebookWriter(cell);
+  const started = new Date();
+  const cue = expandCue(config.cue, {
+    model: config.model,
+    persona: config.persona,
+    time: started,
+  });
+  const provenance = makeProvenance(
+    config.model,
+    config.systemPrompt,
+    prompt.text,
+    started,
+  );
+
+  // The cells of this reply share an id, so they can be removed together.
+  // A continuation is part of the same reply.
+  const replyId = continuing ? getBotMetadata(cell).reply : undefined;
+  const stamp = {
+    provenance,
+    reply: typeof replyId === "string" ? replyId : randomUUID(),
+  };
+
+  const handleBotReply = async (input: Reader): Promise<ReplyWriter> => {
+    const writer = config.writeMode === "background"
+      ? new BackgroundNotebookWriter(cell, languageId, stamp, progress.signal)
+      : new NotebookWriter(cell, stamp);
+    if (continuing) {
+      writer.continueCell();
+    }
 
     try {
-      await new BotResponse(input, cue).copy(writer);
+      const codeBlocks = new CodeBlockPolicy(
+        languageId,
+        config.codeBlocks,
+        config.languages,
+      );
+      const response = new BotResponse(
+        progress.track(input),
+        cue,
+        config.format,
+        {
+          cueTemplate: config.cue,
+          languages: config.languages,
+          codeBlocks,
+          inventedOutput: config.inventedOutput,
+          reasoning: config.reasoning,
+        },
+      );
+      if (continuing) {
+        const state = cell.kind === vscode.NotebookCellKind.Markup
+          ? "markdown"
+          : "code";
+        await response.continue(writer, state, cell.document.languageId);
+      } else {
+        await response.copy(writer);
+      }
     } finally {
       if (!await writer.close()) {
         throw CANCELLED;
       }
     }
+    return writer;
   };
 
+  const progress = replies.start(config.model);
+  let attachments: TempAttachments | undefined;
   try {
-    await service.run(prompt, handleBotReply);
+    if (useChatApi) {
+      const { value: writer, responseId } = await chatService.run(
+        prompt,
+        handleBotReply,
+        progress.signal,
+      );
+      await writer.setResponseId(responseId);
+    } else {
+      attachments = await TempAttachments.write(prompt.images);
+      const writer = await service.run(
+        prompt.text,
+        handleBotReply,
+        attachments.files,
+        progress.signal,
+      );
+      await writer.setResponseId(
+        await service.lastResponseId(prompt.text, started),
+      );
+    }
     return true;
   } catch (e) {
-    if (e === CANCELLED) {
+    if (progress.stopped) {
+      vscode.window.showInformationMessage("Insert bot reply: stopped");
+    } else if (e === CANCELLED) {
       vscode.window.showInformationMessage("Insert bot reply: cancelled");
     } else if (e instanceof ChildExitError) {
       if (
@@ -181,6 +468,10 @@ async function insertBotReply(
           `The llm command stopped with exit code ${e.exitCode}. Check output for details.`;
         showSettingsError(msg, "bot-typist.llm");
       }
+    } else if (e instanceof ChatApiError) {
+      const msg =
+        `The chat API responded with status ${e.status}. Check output for details.`;
+      showSettingsError(msg, "bot-typist.chatApi");
     } else {
       console.error(e);
       vscode.window.showInformationMessage(
@@ -188,7 +479,349 @@ async function insertBotReply(
       );
     }
     return false;
+  } finally {
+    progress.dispose();
+    await attachments?.dispose();
+  }
+}
+
+/**
+ * Replaces the bot's reply to the current question with a new one.
+ * The old reply is kept as an alternative.
+ *
+ * The active cell can be the question or any cell of the reply.
+ */
+async function regenerateBotReply(
+  getService: GetService,
+  getChatService: GetChatService,
+  replies: RepliesInProgress,
+  overrides?: ReplyOverrides,
+): Promise<boolean> {
+  const cell = getActiveCell();
+  if (!cell) {
+    vscode.window.showInformationMessage("Please select a notebook cell.");
+    return false;
+  }
+
+  const notebook = cell.notebook;
+  const languageId = getNotebookLanguage(cell, getLanguageRegistry());
+  const cells = notebook.getCells().map(convertCell);
+  const range = findReply(cells, cell.index, getConfig(languageId).cue);
+  if (!range) {
+    vscode.window.showInformationMessage(
+      "There's no bot reply here to regenerate.",
+    );
+    return false;
+  }
+
+  const question = notebook.cellAt(range.question);
+  const removeEnd = range.trailingBlank ? range.end + 1 : range.end;
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(notebook.uri, editsToReplaceReply(notebook, range, removeEnd));
+  if (!await vscode.workspace.applyEdit(edit)) {
+    vscode.window.showErrorMessage("Couldn't remove the bot's reply.");
+    return false;
+  }
+
+  if (!await editCell(question)) {
+    console.log("regenerateBotReply: couldn't edit question");
+    return false;
+  }
+  return await insertBotReply(getService, getChatService, replies, {
+    cell: question,
+    overrides,
+  });
+}
+
+/**
+ * Removes the cells that the bot wrote in one reply.
+ *
+ * The active cell can be any cell of the reply, or the cell just after it.
+ * The cells are removed in a single edit, so one undo puts them back.
+ */
+async function removeBotReply(): Promise<boolean> {
+  const cell = getActiveCell();
+  if (!cell) {
+    vscode.window.showInformationMessage("Please select a notebook cell.");
+    return false;
+  }
+
+  const notebook = cell.notebook;
+  const range = findReplyCells(getReplyIds(notebook), cell.index);
+  if (!range) {
+    vscode.window.showInformationMessage(
+      "There's no bot reply here to remove.",
+    );
+    return false;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(notebook.uri, [
+    vscode.NotebookEdit.deleteCells(
+      new vscode.NotebookRange(range.start, range.end),
+    ),
+  ]);
+  return await vscode.workspace.applyEdit(edit);
+}
+
+/** Returns the reply id of each cell, or undefined if it's not from a reply. */
+function getReplyIds(
+  notebook: vscode.NotebookDocument,
+): (string | undefined)[] {
+  return notebook.getCells().map((c) => {
+    const reply = getBotMetadata(c).reply;
+    return typeof reply === "string" ? reply : undefined;
+  });
+}
+
+/**
+ * Inserts the bot's reply, then offers to run each code cell it wrote.
+ * If one fails, asks the bot for another reply, up to a limit.
+ *
+ * Only allowed if turned on in settings.
+ */
+async function insertReplyAndRun(
+  getService: GetService,
+  getChatService: GetChatService,
+  replies: RepliesInProgress,
+): Promise<boolean> {
+  const cell = getActiveCell();
+  if (!cell) {
+    vscode.window.showInformationMessage("Please select a notebook cell.");
+    return false;
+  }
+
+  const languageId = getNotebookLanguage(cell, getLanguageRegistry());
+  const { enabled, maxReplies } = getConfig(languageId).agent;
+  if (!enabled) {
+    showSettingsError(
+      "Running the bot's code is turned off. You can turn it on in settings.",
+      "bot-typist.agent",
+    );
+    return false;
+  }
+
+  const loop = replies.start("running the bot's code");
+  try {
+    let target = cell;
+    let runAll = false;
+    for (let count = 1; count <= maxReplies; count++) {
+      loop.label = `reply ${count} of ${maxReplies}`;
+      const notebook = target.notebook;
+      const before = getReplyIds(notebook);
+      if (
+        !await insertBotReply(getService, getChatService, replies, {
+          cell: target,
+        })
+      ) {
+        return false;
+      }
+
+      // Find the cells of the new reply, which start after the target.
+      const first = target.index + 1;
+      const ids = getReplyIds(notebook);
+      if (ids[first] === undefined || ids[first] === before[target.index]) {
+        return true;
+      }
+      const range = findReplyCells(ids, first)!;
+
+      let failed: vscode.NotebookCell | undefined;
+      for (let i = range.start; i < range.end && !failed; i++) {
+        const c = notebook.cellAt(i);
+        if (
+          c.kind !== vscode.NotebookCellKind.Code ||
+          c.document.languageId === "raw"
+        ) {
+          continue;
+        }
+        if (!runAll) {
+          const choice = await askToRun(c);
+          if (choice === "stop") {
+            return false;
+          } else if (choice === "skip") {
+            continue;
+          }
+          runAll = choice === "runAll";
+        }
+        const result = await executeCell(c, loop.signal);
+        if (result === "stopped") {
+          return false;
+        } else if (result === "unknown") {
+          vscode.window.showInformationMessage(
+            `Couldn't tell whether cell ${c.index + 1} ran successfully. ` +
+              "(Is a kernel selected?) Over to you.",
+          );
+          return false;
+        } else if (result === "failed") {
+          failed = c;
+        }
+      }
+      if (!failed || loop.stopped) {
+        return !loop.stopped;
+      } else if (count === maxReplies) {
+        vscode.window.showInformationMessage(
+          `A cell still fails after ${maxReplies} replies. Over to you.`,
+        );
+        return false;
+      }
+
+      // Reply after the last cell of this reply, replacing the empty cell
+      // that was left for the user.
+      target = notebook.cellAt(range.end - 1);
+      await removeEmptyCellAfter(target);
+      if (!await editCell(target)) {
+        return false;
+      }
+    }
+    return false;
+  } finally {
+    loop.dispose();
+  }
+}
+
+/**
+ * Removes the empty Markdown cell that was left for the user after a reply,
+ * if it's there, so that the reply can be extended.
+ */
+async function removeEmptyCellAfter(cell: vscode.NotebookCell) {
+  const notebook = cell.notebook;
+  const index = cell.index + 1;
+  const next = index < notebook.cellCount ? notebook.cellAt(index) : undefined;
+  if (
+    next && !getBotMetadata(next).fromBot &&
+    next.kind === vscode.NotebookCellKind.Markup &&
+    next.document.getText().trim() === ""
+  ) {
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(notebook.uri, [
+      vscode.NotebookEdit.deleteCells(
+        new vscode.NotebookRange(index, index + 1),
+      ),
+    ]);
+    await vscode.workspace.applyEdit(edit);
+  }
+}
+
+/**
+ * Continues a reply that was cut off, such as by a token limit or a stop
+ * sequence, by appending to the last cell that the bot wrote.
+ *
+ * The active cell can be that cell or the empty cell just after it.
+ */
+async function continueBotReply(
+  getService: GetService,
+  getChatService: GetChatService,
+  replies: RepliesInProgress,
+): Promise<boolean> {
+  const active = getActiveCell();
+  if (!active) {
+    vscode.window.showInformationMessage("Please select a notebook cell.");
+    return false;
+  }
+
+  const isEmpty = (c: vscode.NotebookCell) =>
+    c.document.getText().trim() === "";
+  let cell = active;
+  if (!getBotMetadata(cell).fromBot && isEmpty(cell) && cell.index > 0) {
+    cell = cell.notebook.cellAt(cell.index - 1);
+  }
+  if (!getBotMetadata(cell).fromBot || isEmpty(cell)) {
+    vscode.window.showInformationMessage(
+      "There's no bot reply here to continue.",
+    );
+    return false;
+  }
+
+  await removeEmptyCellAfter(cell);
+  if (!await editCell(cell)) {
+    console.log("continueBotReply: couldn't edit cell");
+    return false;
+  }
+  return await insertBotReply(getService, getChatService, replies, {
+    cell,
+    continueCell: true,
+  });
+}
+
+/**
+ * Shows the previous or next alternative reply to a question.
+ *
+ * The cell can be the question or any cell of the reply that's shown.
+ */
+async function showAdjacentReply(
+  cell: vscode.NotebookCell,
+  delta: number,
+): Promise<boolean> {
+  const notebook = cell.notebook;
+  const languageId = getNotebookLanguage(cell, getLanguageRegistry());
+  const cue = getConfig(languageId).cue;
+  const cells = notebook.getCells().map(convertCell);
+
+  let question = cell.index;
+  if (!getAlternatives(cell)) {
+    const range = findReply(cells, cell.index, cue);
+    if (!range) {
+      vscode.window.showInformationMessage(
+        "There are no other replies to switch to.",
+      );
+      return false;
+    }
+    question = range.question;
+  }
+
+  const alts = getAlternatives(notebook.cellAt(question));
+  if (!alts) {
+    vscode.window.showInformationMessage(
+      "There are no other replies to switch to.",
+    );
+    return false;
+  }
+
+  // The reply that's shown might have no cells, if it was stopped right away.
+  const found = findReply(cells, question, cue);
+  const range = found?.question === question ? found : {
+    question,
+    start: question + 1,
+    end: question + 1,
+    trailingBlank: false,
+  };
+  return await showAlternative(notebook, range, alts.selected + delta);
+}
+
+/**
+ * Asks which model and temperature to use for one reply.
+ * @returns the overrides, or undefined if the user cancelled.
+ */
+async function askForOverrides(): Promise<ReplyOverrides | undefined> {
+  const model = await vscode.window.showInputBox({
+    title: "Regenerate Bot Reply",
+    prompt: "Model to use for this reply. Leave empty to use the setting.",
+  });
+  if (model === undefined) {
+    return undefined;
   }
+
+  const temperature = await vscode.window.showInputBox({
+    title: "Regenerate Bot Reply",
+    prompt:
+      "Temperature to use for this reply. Leave empty for the model's default.",
+    validateInput: (value) =>
+      value.trim() === "" || Number.isFinite(Number(value))
+        ? undefined
+        : "Please enter a number.",
+  });
+  if (temperature === undefined) {
+    return undefined;
+  }
+
+  const overrides: ReplyOverrides = {};
+  if (model.trim()) {
+    overrides.model = model.trim();
+  }
+  if (temperature.trim()) {
+    overrides.temperature = Number(temperature);
+  }
+  return overrides;
 }
 
 function showSettingsError(msg: string, settingsSearch: string) {
@@ -212,17 +845,37 @@ async function showBotPrompt(): Promise<boolean> {
     return false;
   }
 
-  const prompt = choosePrompt(cell);
-  if (!prompt) {
+  const languageId = getNotebookLanguage(cell, getLanguageRegistry());
+  const config = getConfig(languageId);
+
+  const prompt = choosePrompt(cell, config);
+  if (!prompt.text) {
     vscode.window.showInformationMessage(
       "Can't generate prompt for bot. Please type a question.",
     );
     return false;
   }
 
-  const languageId = getNotebookLanguage(cell);
-  const system = getConfig(languageId).systemPrompt;
-  const content = `System Prompt\n---\n${system}\nUser Prompt\n---\n${prompt}`;
+  let stats = `Estimated tokens: ${prompt.tokens}`;
+  if (config.tokenBudget > 0) {
+    stats += ` (budget: ${config.tokenBudget})`;
+  }
+  if (prompt.omittedCells > 0) {
+    stats += `\nOmitted to fit the budget: ${prompt.omittedCells} earliest cells`;
+  }
+  if (prompt.images.length > 0) {
+    stats += `\nAttached images: ${prompt.images.length}`;
+  }
+
+  // The chat API gets the bot's earlier replies as separate messages.
+  const conversation = config.backend === "chat-api"
+    ? prompt.turns.map((turn) =>
+      `${turn.role === "user" ? "User" : "Assistant"} Turn\n---\n${turn.text}`
+    ).join("\n")
+    : `User Prompt\n---\n${prompt.text}`;
+
+  const content =
+    `${stats}\n\nSystem Prompt\n---\n${config.systemPrompt}\n${conversation}`;
 
   const doc = await vscode.workspace.openTextDocument({
     content: content,
@@ -0,0 +1,128 @@
+import * as vscode from "vscode";
+
+/** The user's answer when asked whether to run a cell that the bot wrote. */
+export type RunApproval = "run" | "runAll" | "skip" | "stop";
+
+/**
+ * Asks the user whether to run a code cell that the bot wrote, showing its code.
+ */
+export async function askToRun(
+  cell: vscode.NotebookCell,
+): Promise<RunApproval> {
+  const noteEd = vscode.window.activeNotebookEditor;
+  if (noteEd?.notebook === cell.notebook) {
+    noteEd.revealRange(
+      new vscode.NotebookRange(cell.index, cell.index + 1),
+      vscode.NotebookEditorRevealType.InCenterIfOutsideViewport,
+    );
+  }
+
+  const lines = cell.document.getText().split("\n");
+  const preview = lines.slice(0, 20).join("\n") +
+    (lines.length > 20 ? "\n..." : "");
+
+  const choice = await vscode.window.showWarningMessage(
+    `Run the code that the bot wrote in cell ${cell.index + 1}?`,
+    { modal: true, detail: preview },
+    "Run",
+    "Run All",
+    "Skip",
+  );
+  switch (choice) {
+    case "Run":
+      return "run";
+    case "Run All":
+      return "runAll";
+    case "Skip":
+      return "skip";
+    default:
+      return "stop";
+  }
+}
+
+/**
+ * How running a cell turned out.
+ *
+ * - `unknown` means that no result was reported, such as when there's no
+ *   kernel or the kernel doesn't say whether the cell succeeded.
+ * - `stopped` means that the user stopped it.
+ */
+export type RunResult = "succeeded" | "failed" | "unknown" | "stopped";
+
+/**
+ * How long to wait for a cell's result after the command to run it returns.
+ * (The command returns once the cell is done, or if it couldn't be run.)
+ */
+const resultDelay = 2000;
+
+/**
+ * Runs a code cell and waits for it to finish.
+ *
+ * If the signal is aborted first, the cell's execution is cancelled.
+ */
+export function executeCell(
+  cell: vscode.NotebookCell,
+  signal: AbortSignal,
+): Promise<RunResult> {
+  const args = {
+    ranges: [{ start: cell.index, end: cell.index + 1 }],
+    document: cell.notebook.uri,
+  };
+  const previousEnd = cell.executionSummary?.timing?.endTime;
+
+  return new Promise((resolve) => {
+    let finished = false;
+    let timer: NodeJS.Timeout | undefined;
+    const finish = (result: RunResult) => {
+      if (finished) {
+        return;
+      }
+      finished = true;
+      clearTimeout(timer);
+      listener.dispose();
+      signal.removeEventListener("abort", onAbort);
+      resolve(result);
+    };
+
+    const finishWith = (summary: vscode.NotebookCellExecutionSummary) => {
+      if (summary.success === undefined) {
+        finish("unknown");
+      } else {
+        finish(summary.success ? "succeeded" : "failed");
+      }
+    };
+
+    const listener = vscode.workspace.onDidChangeNotebookDocument((e) => {
+      for (const change of e.cellChanges) {
+        const end = change.executionSummary?.timing?.endTime;
+        if (
+          change.cell === cell && end !== undefined && end !== previousEnd
+        ) {
+          finishWith(change.executionSummary!);
+        }
+      }
+    });
+
+    const onAbort = () => {
+      vscode.commands.executeCommand("notebook.cell.cancelExecution", args);
+      finish("stopped");
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort, { once: true });
+
+    vscode.commands.executeCommand("notebook.cell.execute", args).then(
+      () => {
+        // If the cell didn't run, such as when no kernel was chosen,
+        // there won't be a result.
+        timer = setTimeout(() => finish("unknown"), resultDelay);
+      },
+      (e) => {
+        console.log(`couldn't run cell: ${e}`);
+        finish("unknown");
+      },
+    );
+  });
+}
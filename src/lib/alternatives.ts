@@ -0,0 +1,80 @@
+import { isProvenance, Provenance } from "./provenance";
+
+/** A cell of a reply that isn't shown, saved so that it can be put back. */
+export interface SavedCell {
+  kind: "markdown" | "code";
+  languageId: string;
+  text: string;
+  provenance?: Provenance;
+
+  /** The reply's id. (See BotCellMetadata.) */
+  reply?: string;
+}
+
+/**
+ * The bot's replies to a question, saved in the question cell's metadata.
+ *
+ * The selected reply is the one in the notebook. Its saved copy may be out of
+ * date, since it's only saved when switching to another reply.
+ */
+export interface Alternatives {
+  replies: SavedCell[][];
+  selected: number;
+}
+
+/**
+ * Adds a new reply, which will be shown instead of the current one.
+ *
+ * @param shown the cells of the reply that's currently shown.
+ */
+export function addAlternative(
+  alts: Alternatives | undefined,
+  shown: SavedCell[],
+): Alternatives {
+  const replies = alts ? [...alts.replies] : [];
+  const selected = alts ? alts.selected : 0;
+  replies[selected] = shown;
+  return { replies: [...replies, []], selected: replies.length };
+}
+
+/**
+ * Switches to another reply.
+ *
+ * @param shown the cells of the reply that's currently shown.
+ * @returns the new alternatives, or undefined if there's no reply at that index.
+ */
+export function selectAlternative(
+  alts: Alternatives,
+  shown: SavedCell[],
+  index: number,
+): Alternatives | undefined {
+  if (index < 0 || index >= alts.replies.length || index === alts.selected) {
+    return undefined;
+  }
+  const replies = [...alts.replies];
+  replies[alts.selected] = shown;
+  return { replies, selected: index };
+}
+
+function isSavedCell(data: unknown): data is SavedCell {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+  const c = data as { [key: string]: unknown };
+  return (c.kind === "markdown" || c.kind === "code") &&
+    typeof c.languageId === "string" && typeof c.text === "string" &&
+    (c.provenance === undefined || isProvenance(c.provenance)) &&
+    (c.reply === undefined || typeof c.reply === "string");
+}
+
+/** Returns true if the metadata has the fields of {@link Alternatives}. */
+export function isAlternatives(data: unknown): data is Alternatives {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+  const a = data as { [key: string]: unknown };
+  return Array.isArray(a.replies) &&
+    a.replies.every((r) => Array.isArray(r) && r.every(isSavedCell)) &&
+    typeof a.selected === "number" && Number.isInteger(a.selected) &&
+    a.selected >= 0 && a.selected < a.replies.length;
+}
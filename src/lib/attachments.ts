@@ -0,0 +1,57 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { CellImage } from "./botrequest";
+
+/** A file to send to the model along with the prompt. */
+export interface Attachment {
+  path: string;
+  mime: string;
+}
+
+const extensions = new Map([
+  ["image/png", "png"],
+  ["image/jpeg", "jpg"],
+  ["image/gif", "gif"],
+  ["image/webp", "webp"],
+  ["image/svg+xml", "svg"],
+]);
+
+/** Temporary files that should be removed after the llm command finishes. */
+export class TempAttachments {
+  readonly #dir: string;
+  readonly files: Attachment[];
+
+  private constructor(dir: string, files: Attachment[]) {
+    this.#dir = dir;
+    this.files = files;
+  }
+
+  /**
+   * Writes each image to a file in a new temporary directory.
+   * Files are named in order, so that they match the numbering in the prompt.
+   */
+  static async write(images: CellImage[]): Promise<TempAttachments> {
+    if (images.length === 0) {
+      return new TempAttachments("", []);
+    }
+
+    const dir = await mkdtemp(join(tmpdir(), "bot-typist-"));
+    const files: Attachment[] = [];
+    for (let i = 0; i < images.length; i++) {
+      const { mime, data } = images[i];
+      const path = join(dir, `image-${i + 1}.${extensions.get(mime) ?? "bin"}`);
+      await writeFile(path, data);
+      files.push({ path, mime });
+    }
+    return new TempAttachments(dir, files);
+  }
+
+  /** Removes the temporary directory. */
+  async dispose(): Promise<void> {
+    if (this.#dir) {
+      await rm(this.#dir, { recursive: true, force: true });
+    }
+  }
+}
@@ -1,45 +1,293 @@
+import { condenseTraceback, TracebackStyle } from "./tracebacks";
+import { Fence, isFenceClose, parseFenceOpen } from "./fences";
+import { defaultTranscriptFormat, TranscriptFormat } from "./transcript";
+import { cuePattern } from "./cues";
+import { reasoningSummary } from "./botresponse";
+
 export interface Cell {
   languageId: string;
   text: string;
   outputs?: CellOutput[];
+
+  /** If true, the cell is left out of the prompt. */
+  hidden?: boolean;
+
+  /** If true, the cell is kept even if it's before the start of the chat or over budget. */
+  pinned?: boolean;
+
+  /** Jupyter cell tags. */
+  tags?: string[];
+
+  /** True if the cell was written by the bot, or undefined if not known. */
+  fromBot?: boolean;
 }
 
 export type CellOutput =
   | ["text", string]
-  | ["error", CellError];
+  | ["stderr", string]
+  | ["error", CellError]
+  | ["image", CellImage];
 
 export type CellError = { name: string; message: string; stack: string };
 
+export type CellImage = {
+  mime: string;
+  data: Uint8Array;
+  /** Text to send instead, if the image isn't attached. */
+  altText: string;
+};
+
+/** Options that control where a chat starts. */
+export interface ChatStartOptions {
+  /**
+   * If true, a horizontal rule in a Markdown cell starts a new chat.
+   * Defaults to true.
+   */
+  horizontalRules?: boolean;
+
+  /** If set, a line in a Markdown cell with just this text starts a new chat. */
+  marker?: string;
+
+  /** If set, a cell with this tag starts a new chat. */
+  tag?: string;
+}
+
+/** A thematic break, as defined by CommonMark. */
 const isHorizontalRule = (line: string): boolean => {
-  return /^[-*_]{3,}$/.test(line.trim());
+  return /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/.test(line);
+};
+
+/** A line that could be the underline of a setext heading. */
+const isSetextUnderline = (line: string): boolean => {
+  return /^ {0,3}(-+|=+)[ \t]*$/.test(line);
+};
+
+/**
+ * Returns true if a line can't be continued by a setext heading underline,
+ * because it's blank or starts some other kind of block.
+ */
+const endsParagraph = (line: string): boolean => {
+  return line.trim() === "" || isHorizontalRule(line) ||
+    /^ {0,3}(#{1,6}(\s|$)|>|[-*+](\s|$)|\d{1,9}[.)](\s|$))/.test(line);
+};
+
+/**
+ * Returns the number of lines of YAML front matter at the start of a cell,
+ * including the delimiters.
+ */
+const frontMatterLength = (lines: string[]): number => {
+  if (lines[0]?.trimEnd() !== "---") {
+    return 0;
+  }
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trimEnd();
+    if (line === "---" || line === "...") {
+      return i + 1;
+    }
+  }
+  return 0;
 };
 
 type CellParse = ["start", string] | ["text", string];
 
-const parse = (text: string): CellParse => {
+/**
+ * Finds the last place where a new chat starts within a Markdown cell.
+ *
+ * Horizontal rules inside code blocks or front matter don't count, and neither
+ * do the underlines of setext headings.
+ */
+const parse = (
+  text: string,
+  options: ChatStartOptions,
+  isFirstCell: boolean,
+): CellParse => {
+  const lines = text.split("\n");
+
   let foundStart = false;
-  let result = "";
+  let start = 0;
+
+  let fence: Fence | undefined;
+  let inParagraph = false;
 
-  let firstLine = true;
-  for (const line of text.split("\n")) {
-    if (!firstLine) {
-      result += "\n";
+  const first = isFirstCell ? frontMatterLength(lines) : 0;
+  for (let i = first; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (fence) {
+      if (isFenceClose(line, fence)) {
+        fence = undefined;
+      }
+      continue;
     }
 
-    if (isHorizontalRule(line)) {
+    fence = parseFenceOpen(line);
+    if (fence) {
+      inParagraph = false;
+      continue;
+    }
+
+    if (!inParagraph && /^( {4}|\t)/.test(line) && line.trim() !== "") {
+      continue; // indented code block
+    }
+
+    const isMarker = !!options.marker && line.trim() === options.marker;
+    const isRule = (options.horizontalRules ?? true) &&
+      isHorizontalRule(line) && !(inParagraph && isSetextUnderline(line));
+
+    if (isMarker || isRule) {
       foundStart = true;
-      result = "";
-      firstLine = true;
+      start = i + 1;
+      inParagraph = false;
       continue;
     }
 
-    result += line;
-    firstLine = false;
+    inParagraph = !endsParagraph(line) &&
+      !(inParagraph && isSetextUnderline(line));
   }
+
+  const result = lines.slice(start).join("\n");
   const tag = foundStart ? "start" : "text";
   return [tag, result];
 };
 
+export interface PromptOptions {
+  /**
+   * The maximum number of tokens to send, as estimated by {@link estimateTokens}.
+   * Zero or undefined means there is no limit.
+   */
+  tokenBudget?: number;
+
+  /**
+   * The maximum number of lines to include from each cell output.
+   * Zero or undefined means there is no limit.
+   */
+  maxOutputLines?: number;
+
+  /**
+   * The maximum number of characters to include from each cell output.
+   * Zero or undefined means there is no limit.
+   */
+  maxOutputChars?: number;
+
+  /**
+   * The maximum number of images to attach to the prompt.
+   * Zero or undefined means images aren't attached.
+   */
+  maxImages?: number;
+
+  /**
+   * The maximum total size of the attached images, in bytes.
+   * Zero or undefined means there is no limit.
+   */
+  maxImageBytes?: number;
+
+  /**
+   * How to clean up stack traces in error outputs.
+   * Undefined means they're sent unchanged.
+   */
+  tracebackStyle?: TracebackStyle;
+
+  /** Determines where the chat starts. */
+  chatStart?: ChatStartOptions;
+
+  /** How to write the cells. Defaults to the `%` format. */
+  format?: TranscriptFormat;
+
+  /**
+   * The label at the start of the bot's Markdown cells, without the colon.
+   * It's used to tell which cells the bot wrote, when not otherwise known.
+   */
+  cue?: string;
+
+  /**
+   * If true, the last cell is part of a reply that the bot didn't finish.
+   * It's sent without its outputs, followed by a request to continue it.
+   * (See {@link continueRequest}.)
+   */
+  continueLast?: boolean;
+}
+
+export interface BotPrompt {
+  text: string;
+
+  /** The estimated number of tokens in the prompt. */
+  tokens: number;
+
+  /** The number of cells that were left out to stay within the token budget. */
+  omittedCells: number;
+
+  /** Images to attach. The text refers to them by their position, starting at 1. */
+  images: CellImage[];
+
+  /**
+   * The same prompt, split into a conversation.
+   * Joining the text of each turn gives the same result as {@link text}.
+   */
+  turns: Turn[];
+}
+
+export type Role = "user" | "assistant";
+
+/** One or more consecutive cells written by the same participant. */
+export interface Turn {
+  role: Role;
+  text: string;
+}
+
+/**
+ * Roughly estimates the number of tokens in some text.
+ *
+ * Tokenizers differ between models, but about four characters per token
+ * is typical for English text and code.
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / 4);
+};
+
+const formatCount = (n: number, unit: string): string =>
+  `${n.toLocaleString("en-US")} ${unit}${n === 1 ? "" : "s"}`;
+
+/**
+ * Shortens a cell output by removing lines or characters from the middle,
+ * so that both the beginning and the end are still visible.
+ *
+ * The line limit is applied first, then the character limit.
+ * A limit of zero means there is no limit.
+ */
+export function elideOutput(
+  output: string,
+  maxLines: number,
+  maxChars: number,
+): string {
+  const trailingNewline = output.endsWith("\n");
+  const body = trailingNewline ? output.slice(0, -1) : output;
+
+  let result = body;
+
+  const lines = body.split("\n");
+  if (maxLines > 0 && lines.length > maxLines) {
+    const headCount = Math.ceil(maxLines / 2);
+    const tailCount = maxLines - headCount;
+    const omitted = lines.length - maxLines;
+    result = [
+      ...lines.slice(0, headCount),
+      `... ${formatCount(omitted, "line")} omitted ...`,
+      ...lines.slice(lines.length - tailCount),
+    ].join("\n");
+  }
+
+  if (maxChars > 0 && result.length > maxChars) {
+    const headCount = Math.ceil(maxChars / 2);
+    const tailCount = maxChars - headCount;
+    const omitted = result.length - maxChars;
+    result = result.slice(0, headCount) +
+      `\n... ${formatCount(omitted, "character")} omitted ...\n` +
+      result.slice(result.length - tailCount);
+  }
+
+  return trailingNewline ? result + "\n" : result;
+}
+
 /**
  * Determines the prompt to use, given the current cell.
  */
@@ -47,43 +295,270 @@ export function chooseBotPrompt(
   cellAt: (idx: number) => Cell,
   cellIndex: number,
 ): string {
-  let prompt = "";
+  return buildBotPrompt(cellAt, cellIndex).text;
+}
+
+/**
+ * Determines the prompt to use, given the current cell.
+ *
+ * Hidden cells are skipped. Pinned cells are kept even if they're above
+ * the start of the chat.
+ *
+ * If a token budget is set, the oldest cells are dropped until the prompt fits.
+ * Pinned cells and the cells of the last turn, which ends with the current
+ * cell, are always kept, even if they don't fit.
+ */
+export function buildBotPrompt(
+  cellAt: (idx: number) => Cell,
+  cellIndex: number,
+  options: PromptOptions = {},
+): BotPrompt {
+  const format = options.format ?? defaultTranscriptFormat;
+  const elide = (output: string) =>
+    elideOutput(
+      output,
+      options.maxOutputLines ?? 0,
+      options.maxOutputChars ?? 0,
+    );
+
+  type Entry = { cell: Cell; text: string };
+
+  type FormattedEntry = { source: string; outputs: string };
 
-  const pushCell = (cell: Cell, text: string) => {
-    prompt += `%${cell.languageId}\n${text}\n`;
+  const formatEntry = (
+    { cell, text }: Entry,
+    attachments: Map<CellImage, number>,
+  ): FormattedEntry => {
+    const source = format.formatCell(cell.languageId, text);
+
+    let chunk = "";
 
     for (const output of cell.outputs || []) {
       switch (output[0]) {
         case "text":
-          prompt += `%output\n${output[1]}\n`;
+          chunk += format.formatOutput("output", elide(output[1]));
+          break;
+        case "stderr":
+          chunk += format.formatOutput("stderr", elide(output[1]));
           break;
         case "error":
           const error = output[1];
           // The stack includes the error name and message.
           // Not sure what the format is, but the bot can likely figure it out.
-          prompt += `%output\n${error.stack}\n`;
+          const stack = condenseTraceback(
+            error.stack,
+            options.tracebackStyle ?? "none",
+          );
+          chunk += format.formatOutput("output", elide(stack));
+          break;
+        case "image":
+          const image = output[1];
+          const n = attachments.get(image);
+          const shown = n ? `[${image.mime}] (attachment ${n})` : image.altText;
+          chunk += format.formatOutput("output", shown);
           break;
       }
     }
+
+    return { source, outputs: chunk };
   };
 
+  let entries: Entry[] = [];
+
   for (let i = 0; i <= cellIndex; i++) {
     const cell = cellAt(i);
+    if (cell.hidden) {
+      continue;
+    }
+
+    const chatStart = options.chatStart ?? {};
+    if (chatStart.tag && cell.tags?.includes(chatStart.tag)) {
+      entries = entries.filter((entry) => entry.cell.pinned);
+    }
+
     if (cell.text.trim() === "") {
       continue;
     } else if (cell.languageId !== "markdown") {
-      pushCell(cell, cell.text);
+      entries.push({ cell, text: cell.text });
       continue;
     }
 
-    const parsed = parse(cellAt(i).text);
+    // Only the user can start a new chat. A horizontal rule or marker
+    // that the bot wrote is just part of its reply.
+    const parsed: CellParse = isFromBot(cell, cell.text, options.cue)
+      ? ["text", stripReasoning(cell.text)]
+      : parse(cell.text, chatStart, i === 0);
     if (parsed[0] === "start") {
-      prompt = "";
+      entries = entries.filter((entry) => entry.cell.pinned);
     }
     if (parsed[1].trim() !== "") {
-      pushCell(cell, parsed[1]);
+      entries.push({ cell, text: parsed[1] });
+    }
+  }
+
+  const noAttachments = new Map<CellImage, number>();
+  const chunks = entries.map((entry) => {
+    const { source, outputs } = formatEntry(entry, noAttachments);
+    return source + outputs;
+  });
+
+  // Roles are decided before any cells are dropped, since a code cell
+  // has the same author as the cell before it.
+  const roles: Role[] = [];
+  for (const entry of entries) {
+    const previousRole = roles.at(-1) ?? "user";
+    roles.push(chooseRole(entry.cell, entry.text, previousRole, options.cue));
+  }
+
+  // The last turn is kept whole, even if it has several cells.
+  let lastTurnStart = entries.length - 1;
+  while (lastTurnStart > 0 && roles[lastTurnStart - 1] === roles.at(-1)) {
+    lastTurnStart--;
+  }
+
+  let tokens = chunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0);
+  const omitted = new Set<Entry>();
+
+  const budget = options.tokenBudget ?? 0;
+  if (budget > 0) {
+    for (let i = 0; i < lastTurnStart && tokens > budget; i++) {
+      if (!entries[i].cell.pinned) {
+        tokens -= estimateTokens(chunks[i]);
+        omitted.add(entries[i]);
+      }
+    }
+  }
+  const omittedCells = omitted.size;
+
+  const kept = entries.filter((entry) => !omitted.has(entry));
+  const images = chooseImages(kept.map((entry) => entry.cell), options);
+  const attachments = new Map(images.map((image, i) => [image, i + 1]));
+
+  // Outputs come from running the code, so they're part of the user's turn,
+  // even if the bot wrote the code.
+  const turns: Turn[] = [];
+  const pushTurn = (role: Role, text: string) => {
+    const last = turns.at(-1);
+    if (last?.role === role) {
+      last.text += text;
+    } else if (text !== "") {
+      turns.push({ role, text });
     }
+  };
+
+  const continued = options.continueLast ? kept.at(-1) : undefined;
+
+  const roleOf = new Map(entries.map((entry, i) => [entry, roles[i]]));
+  for (const entry of kept) {
+    if (entry === continued) {
+      const { languageId } = entry.cell;
+      pushTurn("assistant", format.formatCell(languageId, entry.text));
+      pushTurn(
+        "user",
+        format.formatCell("markdown", continueRequest(entry.text)),
+      );
+      break;
+    }
+    const { source, outputs } = formatEntry(entry, attachments);
+    pushTurn(roleOf.get(entry)!, source);
+    pushTurn("user", outputs);
+  }
+
+  const text = turns.map((turn) => turn.text).join("");
+  return { text, tokens, omittedCells, images, turns };
+}
+
+/**
+ * Asks the bot to continue a cell that it didn't finish.
+ *
+ * Neither backend can make the bot pick up in the middle of its own turn,
+ * so this is sent as the user's next turn instead. The transcript format
+ * adds a line break after the cell, so its last line is quoted exactly.
+ */
+export function continueRequest(text: string): string {
+  const lastLine = text.slice(text.lastIndexOf("\n", text.length - 2) + 1);
+  return "Your reply was cut off in the middle of the cell above. " +
+    "Continue it from its exact last character. Don't repeat anything " +
+    "and don't start a new cell, since what you write is appended to it. " +
+    `Its last line, as a JSON string, is ${JSON.stringify(lastLine)}.`;
+}
+
+/**
+ * Removes the collapsed reasoning blocks from a cell that the bot wrote,
+ * so that its reasoning isn't sent back to it in later prompts.
+ */
+export function stripReasoning(text: string): string {
+  const lines = text.split("\n");
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i] !== "<details>" || lines[i + 1] !== reasoningSummary) {
+      kept.push(lines[i]);
+      continue;
+    }
+    // If the reply was cut off in the reasoning, there's no end.
+    const end = lines.indexOf("</details>", i + 2);
+    i = end >= 0 ? end : lines.length - 1;
+    while (i + 2 < lines.length && lines[i + 1] === "") {
+      i++;
+    }
+  }
+  return kept.join("\n");
+}
+
+/**
+ * Decides who wrote a cell.
+ *
+ * A Markdown cell is from the bot if it starts with the cue. A code cell
+ * is assumed to have the same author as the cell before it.
+ */
+export function chooseRole(
+  cell: Cell,
+  text: string,
+  previousRole: Role,
+  cue: string | undefined,
+): Role {
+  if (cell.fromBot === undefined && cell.languageId !== "markdown") {
+    return previousRole;
+  }
+  return isFromBot(cell, text, cue) ? "assistant" : "user";
+}
+
+/**
+ * Returns true if the bot wrote a cell, according to its metadata.
+ * Otherwise, a Markdown cell is from the bot if it starts with the cue,
+ * or with any expansion of it if the cue is a template.
+ */
+function isFromBot(cell: Cell, text: string, cue: string | undefined): boolean {
+  if (cell.fromBot !== undefined) {
+    return cell.fromBot;
   }
+  return cell.languageId === "markdown" && !!cue &&
+    cuePattern(cue).test(text.trimStart());
+}
+
+/**
+ * Chooses which images to attach, preferring the most recent ones.
+ * @returns the chosen images, in the order that they appear.
+ */
+function chooseImages(cells: Cell[], options: PromptOptions): CellImage[] {
+  const maxImages = options.maxImages ?? 0;
+  const maxBytes = options.maxImageBytes ?? 0;
+
+  const candidates = cells.flatMap((cell) => cell.outputs ?? [])
+    .flatMap((output) => output[0] === "image" ? [output[1]] : []);
 
-  return prompt;
+  const chosen: CellImage[] = [];
+  let totalBytes = 0;
+  for (let i = candidates.length - 1; i >= 0; i--) {
+    if (chosen.length >= maxImages) {
+      break;
+    }
+    const image = candidates[i];
+    if (maxBytes > 0 && totalBytes + image.data.length > maxBytes) {
+      continue;
+    }
+    chosen.unshift(image);
+    totalBytes += image.data.length;
+  }
+  return chosen;
 }
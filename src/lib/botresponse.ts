@@ -1,31 +1,123 @@
-import { DONE, Reader, ReadResult, WriteCloser, Writer } from "./streams";
+import { Reader, WriteCloser, Writer } from "./streams";
 import { Scanner } from "./scanner";
+import {
+  allOutputKinds,
+  defaultTranscriptFormat,
+  OutputKind,
+  TranscriptFormat,
+} from "./transcript";
+import { defaultLanguageRegistry, LanguageRegistry } from "./languages";
+import { Fence, fenceLanguage, isFenceClose, parseFenceOpen } from "./fences";
+import { CodeBlockAction, CodeBlockPolicy } from "./codeblocks";
+import { cuePattern, isValidCueTemplate } from "./cues";
 
-export const allLanguages = ["python", "typescript"] as const;
-
-export const allCellTypes = ["markdown", ...allLanguages] as const;
+export interface HeaderLine {
+  /** Either "markdown" or the id of a language. */
+  type: string;
 
-type CellType = typeof allCellTypes[number];
+  /** The name used in the header line, which may be an alias, such as `bash`. */
+  name: string;
 
-export interface HeaderLine {
-  type: CellType;
   line: string;
 }
 
 export interface CellWriter extends WriteCloser<boolean> {
-  startCodeCell(): Promise<boolean>;
+  /**
+   * Starts a code cell.
+   * @param languageId the cell's language, if it's not the notebook's.
+   */
+  startCodeCell(languageId?: string): Promise<boolean>;
   startMarkdownCell(): Promise<boolean>;
+
+  /** Starts a raw cell, which holds text that isn't run. */
+  startRawCell(): Promise<boolean>;
 }
 
 export const CANCELLED = Symbol("CANCELLED");
 
+export const allInventedOutputActions = ["stop", "drop", "quarantine"] as const;
+
+/**
+ * What to do when the bot writes a cell output, which it should leave to the user.
+ *
+ * - `stop` ends the reply there, like a stop sequence would.
+ * - `drop` leaves out the output and carries on with the next cell.
+ * - `quarantine` puts the output in a collapsed note, so it's not mistaken for real output.
+ */
+export type InventedOutputAction = typeof allInventedOutputActions[number];
+
+export const allReasoningActions = ["show", "collapse", "hide"] as const;
+
+/**
+ * What to do with the reasoning that some models write before their answer.
+ *
+ * - `show` copies it as-is.
+ * - `collapse` puts it in a collapsed `<details>` block.
+ * - `hide` leaves it out.
+ */
+export type ReasoningAction = typeof allReasoningActions[number];
+
+export interface ReasoningOptions {
+  action: ReasoningAction;
+
+  /** The start and end of each kind of reasoning block, such as `<think>`. */
+  delimiters: [start: string, end: string][];
+}
+
+/** The summary line of a collapsed reasoning block. */
+export const reasoningSummary = "<summary>Reasoning</summary>";
+
+/** The kind of cell that a reply was cut off in, so that it can be continued. */
+export type ResumeState = "markdown" | "code";
+
+export interface ReplyOptions {
+  /**
+   * The template that the cue was expanded from. A cue that the bot wrote
+   * itself is kept if it matches. Defaults to the cue.
+   */
+  cueTemplate?: string;
+
+  /** The languages to convert to code cells. */
+  languages?: LanguageRegistry;
+
+  /** What to do with code blocks. Defaults to converting known languages. */
+  codeBlocks?: CodeBlockPolicy;
+
+  /** Defaults to `stop`. */
+  inventedOutput?: InventedOutputAction;
+
+  /** Defaults to showing reasoning as-is. */
+  reasoning?: ReasoningOptions;
+}
+
 export class BotResponse {
   #stream: Scanner;
   #defaultCue: string;
-
-  constructor(stream: Reader, defaultCue = "bot") {
+  #cuePattern: RegExp;
+  #format: TranscriptFormat;
+  #languages: LanguageRegistry;
+  #codeBlocks: CodeBlockPolicy;
+  #inventedOutput: InventedOutputAction;
+  #reasoning: ReasoningOptions;
+
+  /** Set when the rest of the response should be ignored. */
+  #stopped = false;
+
+  constructor(
+    stream: Reader,
+    defaultCue = "bot",
+    format = defaultTranscriptFormat,
+    options: ReplyOptions = {},
+  ) {
     this.#stream = new Scanner(stream);
     this.#defaultCue = defaultCue;
+    this.#cuePattern = cuePattern(options.cueTemplate ?? defaultCue);
+    this.#format = format;
+    this.#languages = options.languages ?? defaultLanguageRegistry;
+    this.#codeBlocks = options.codeBlocks ??
+      new CodeBlockPolicy("", {}, this.#languages);
+    this.#inventedOutput = options.inventedOutput ?? "stop";
+    this.#reasoning = options.reasoning ?? { action: "show", delimiters: [] };
   }
 
   /**
@@ -33,9 +125,10 @@ export class BotResponse {
    *
    * Initially, output is assumed to be within a markdown cell.
    * Splits input into cells and sends them separately to the output.
-   * Cells are separated by lines starting with '%'.
-   * The '%' should be followed by the cell type, e.g. '%python'.
-   * Currently supports python, typescript, and markdown cells.
+   * Cells start with a header line that depends on the transcript format.
+   * (For the default format, it's a line starting with '%', followed by
+   * the cell type, e.g. '%python'.)
+   * Supports markdown cells and cells in any language in the registry.
    *
    * @throws CANCELLED if the writer cancelled the copy.
    */
@@ -43,50 +136,119 @@ export class BotResponse {
     // skip blank lines at start of response before checking for end
     await this.skipBlankLines();
 
+    // Collapsed reasoning goes after the cue, so the cell still starts with it.
+    const cued = this.#reasoning.action === "collapse" &&
+      await this.atReasoning();
+    if (cued && !await output.write(`${this.#defaultCue}: \n`)) {
+      throw CANCELLED;
+    }
+    while (await this.copyReasoning(output)) {
+      await this.skipBlankLines();
+    }
+
     if (this.atEnd) {
-      if (!await output.write(`${this.#defaultCue}: (no response)`)) {
+      const cue = cued ? "" : `${this.#defaultCue}: `;
+      if (!await output.write(`${cue}(no response)`)) {
         throw CANCELLED;
       }
       return;
     }
 
-    let header = await this.matchHeaderLine();
-    if (!header) {
+    const header = await this.matchHeaderLine();
+    if (!header && !await this.matchOutputHeader()) {
       // no header; assume markdown
       // TODO: send cell start?
-      await this.copyMarkdown(output);
+      await this.copyMarkdown(output, cued);
+    }
 
-      if (this.atEnd) {
-        return;
-      }
+    await this.copyCells(output, header);
+  }
 
-      header = await this.matchHeaderLine();
-      if (!header) {
-        // copyMarkdown shouldn't have stopped here
-        throw new Error("expected a header line");
+  /**
+   * Copies the rest of a reply that was cut off, such as by a token limit.
+   *
+   * The response is appended to the cell that the writer is in, without a cue,
+   * until that cell ends. After that, it's split into cells as in {@link copy}.
+   *
+   * @param state the kind of cell that the reply was cut off in.
+   * @param languageId the language of the cell that the reply was cut off in.
+   * @throws CANCELLED if the writer cancelled the copy.
+   */
+  async continue(
+    output: CellWriter,
+    state: ResumeState,
+    languageId: string,
+  ): Promise<void> {
+    await this.skipRepeatedHeader(languageId);
+    if (state === "code") {
+      await this.continueCodeCell(output);
+    }
+    await this.copyMarkdownLines(output);
+    await this.copyCells(output, null);
+  }
+
+  /**
+   * Skips a header at the start of a continuation if it's for the same kind
+   * of cell, since models often start one even though they're continuing.
+   * In the Markdown format, a code cell's header is its opening fence.
+   */
+  private async skipRepeatedHeader(languageId: string) {
+    const header = await this.matchHeaderLine();
+    if (header) {
+      if (header.type === languageId) {
+        await this.#stream.skipToken(header.line);
+        if (languageId === "markdown") {
+          await this.skipCue();
+        }
       }
+      return;
     }
 
+    const fence = await this.peekFenceOpen();
+    if (
+      fence && !this.#format.cellHeader("markdown") &&
+      this.#languages.lookup(fenceLanguage(fence))?.id === languageId
+    ) {
+      await this.#stream.takeLine();
+    }
+  }
+
+  /** Copies cells until the end of the response, starting with the given header. */
+  private async copyCells(output: CellWriter, header: HeaderLine | null) {
     while (true) {
-      this.#stream.skipToken(header.line);
+      if (header) {
+        await this.#stream.skipToken(header.line);
+
+        if (header.type === "markdown") {
+          await output.startMarkdownCell();
+          await this.skipBlankLines();
+          await this.copyMarkdown(output);
+        } else {
+          await this.copyHeaderCell(output, header.name);
+        }
+      }
 
-      if (header.type === "markdown") {
-        await output.startMarkdownCell();
+      if (await this.skipCellFooter()) {
         await this.skipBlankLines();
-        await this.copyMarkdown(output);
-      } else {
-        await output.startCodeCell();
+      }
+
+      while (await this.copyInventedOutput(output)) {
         await this.skipBlankLines();
-        await this.copyCodeCell(output);
       }
 
-      if (this.atEnd) {
+      if (this.atEnd || this.#stopped) {
         return;
       }
 
       header = await this.matchHeaderLine();
       if (!header) {
-        throw new Error("expected a header line");
+        if (!this.#format.cellFooter) {
+          // copying should only stop at a header line
+          throw new Error("expected a header line");
+        }
+        // text between cells; assume markdown
+        await output.startMarkdownCell();
+        await this.copyMarkdown(output);
       }
     }
   }
@@ -100,100 +262,448 @@ export class BotResponse {
   }
 
   async matchHeaderLine(): Promise<HeaderLine | null> {
-    for (const lang of allCellTypes) {
-      const header = `%${lang}\n`;
-      if (await this.#stream.startsWith(header)) {
-        return { type: lang, line: header };
+    const header = this.#format.cellHeader("markdown");
+    if (header && await this.#stream.startsWith(header)) {
+      return { type: "markdown", name: "markdown", line: header };
+    }
+    for (const name of this.#languages.fenceNames) {
+      const header = this.#format.cellHeader(name);
+      if (header && await this.#stream.startsWith(header)) {
+        const type = this.#languages.lookup(name)?.id ?? name;
+        return { type, name, line: header };
+      }
+    }
+    return null;
+  }
+
+  /** Returns the kind of output if the next line starts one. */
+  async matchOutputHeader(): Promise<OutputKind | null> {
+    for (const kind of allOutputKinds) {
+      const header = this.#format.outputHeader(kind);
+      if (header && await this.#stream.startsWith(header)) {
+        return kind;
       }
     }
     return null;
   }
 
+  /** Returns true if the next line starts a cell or an output, or ends a cell. */
+  async atCellBoundary(): Promise<boolean> {
+    return !!await this.matchHeaderLine() ||
+      !!await this.matchOutputHeader() || await this.atCellFooter();
+  }
+
+  /**
+   * If the next line starts a cell output, handles it as configured.
+   *
+   * @returns false if there was no output.
+   */
+  async copyInventedOutput(output: CellWriter): Promise<boolean> {
+    const kind = await this.matchOutputHeader();
+    if (!kind) {
+      return false;
+    } else if (this.#inventedOutput === "stop") {
+      this.#stopped = true;
+      return false;
+    }
+
+    await this.#stream.takeLine();
+    if (this.#inventedOutput === "quarantine") {
+      await output.startMarkdownCell();
+      await this.writeQuarantineStart(output, kind);
+    }
+
+    const footer = this.#format.outputFooter?.(kind);
+    while (!this.atEnd) {
+      if (footer && await this.#stream.startsWith(footer.trimEnd())) {
+        await this.#stream.takeLine();
+        break;
+      } else if (await this.matchHeaderLine() || await this.matchOutputHeader()) {
+        break;
+      }
+      await this.copyOrSkipLine(output);
+    }
+
+    if (this.#inventedOutput === "quarantine") {
+      await this.writeQuarantineEnd(output);
+    }
+    return true;
+  }
+
+  /**
+   * Copies a code block that the bot wrote as a cell output.
+   * The next line should be its opening fence.
+   */
+  private async copyInventedOutputBlock(output: Writer, fence: Fence) {
+    if (this.#inventedOutput === "stop") {
+      this.#stopped = true;
+      return;
+    }
+
+    await this.#stream.takeLine();
+    if (this.#inventedOutput === "quarantine") {
+      await this.writeQuarantineStart(output, fenceLanguage(fence));
+    }
+
+    while (!this.atEnd) {
+      if (
+        await this.atFenceChars() &&
+        isFenceClose(await this.#stream.peekLine(), fence)
+      ) {
+        await this.#stream.takeLine();
+        break;
+      }
+      await this.copyOrSkipLine(output);
+    }
+
+    if (this.#inventedOutput === "quarantine") {
+      await this.writeQuarantineEnd(output);
+    }
+  }
+
+  private async copyOrSkipLine(output: Writer) {
+    if (this.#inventedOutput === "drop") {
+      await this.#stream.takeLine();
+    } else if (!await this.#stream.copyLineTo(output)) {
+      throw CANCELLED;
+    }
+  }
+
+  private async writeQuarantineStart(output: Writer, kind: string) {
+    const start = "<details>\n" +
+      `<summary>The bot wrote this ${kind}. It didn't come from running the code.</summary>\n\n` +
+      "```\n";
+    if (!await output.write(start)) {
+      throw CANCELLED;
+    }
+  }
+
+  private async writeQuarantineEnd(output: Writer) {
+    if (!await output.write("```\n\n</details>\n")) {
+      throw CANCELLED;
+    }
+  }
+
+  /** Returns true if the next thing in the response is a reasoning block. */
+  async atReasoning(): Promise<boolean> {
+    if (this.#reasoning.action === "show") {
+      return false;
+    }
+    for (const [start] of this.#reasoning.delimiters) {
+      if (await this.#stream.startsWith(start)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * If a reasoning block is next, copies or skips it as configured.
+   * The reasoning is streamed so that the user can see progress.
+   *
+   * @returns false if there was no reasoning block.
+   */
+  async copyReasoning(output: Writer): Promise<boolean> {
+    const { action, delimiters } = this.#reasoning;
+    if (action === "show") {
+      return false;
+    }
+
+    for (const [start, end] of delimiters) {
+      if (!await this.#stream.skipToken(start)) {
+        continue;
+      }
+
+      const write = async (text: string) => {
+        if (action === "collapse" && !await output.write(text)) {
+          throw CANCELLED;
+        }
+      };
+
+      await write(`<details>\n${reasoningSummary}\n\n`);
+      await this.skipBlankLines();
+
+      let last = "";
+      while (true) {
+        const chunk = await this.#stream.takeChunkBefore(end);
+        if (chunk === "") {
+          break;
+        }
+        await write(chunk);
+        last = chunk;
+      }
+      await this.#stream.skipToken(end);
+      await this.#stream.takeBlankLine();
+
+      const newline = last.endsWith("\n") ? "" : "\n";
+      await write(newline + "\n</details>\n\n");
+      return true;
+    }
+    return false;
+  }
+
+  /** Returns true if the next line ends a cell. (Only some formats have them.) */
+  async atCellFooter(): Promise<boolean> {
+    const footer = this.#format.cellFooter;
+    if (!footer) {
+      return false;
+    } else if (await this.#stream.startsWith(footer)) {
+      return true;
+    }
+
+    // It's also a footer if it's the last line and there's no newline.
+    const tag = footer.trimEnd();
+    return await this.#stream.startsWith(tag) &&
+      !await this.#stream.fillTo(tag.length + 1) &&
+      this.#stream.buffer === tag;
+  }
+
+  async skipCellFooter(): Promise<boolean> {
+    if (!await this.atCellFooter()) {
+      return false;
+    }
+    await this.#stream.takeLine();
+    return true;
+  }
+
   async copyOrAddCue(output: Writer): Promise<void> {
     await this.#stream.takeMatchingPrefix(" \t");
-    let name = await takeLabel(this.#stream);
-    if (name && await this.#stream.skipToken(": ")) {
+    const label = await this.peekLabel();
+    if (
+      label && (isLabel(label) || this.#cuePattern.test(label + ": "))
+    ) {
       // already present
-      if (!await output.write(name + ": ")) {
+      await this.#stream.skipToken(label + ": ");
+      if (!await output.write(label + ": ")) {
         throw CANCELLED;
       }
     } else {
       // add it
-      if (!await output.write(this.#defaultCue + ": " + name)) {
+      if (!await output.write(this.#defaultCue + ": ")) {
         throw CANCELLED;
       }
     }
   }
 
-  async skipCodeBlockHeader() {
-    for (const lang of allLanguages) {
-      if (await this.#stream.skipToken("```" + lang + "\n")) {
-        return true;
+  /** Skips a cue at the start of the line, if the bot wrote one. */
+  private async skipCue() {
+    await this.#stream.takeMatchingPrefix(" \t");
+    const label = await this.peekLabel();
+    if (label && this.#cuePattern.test(label + ": ")) {
+      await this.#stream.skipToken(label + ": ");
+    }
+  }
+
+  /**
+   * Looks ahead for a short label that's followed by ": " on the same line.
+   * @returns the label, or undefined if there isn't one.
+   */
+  private async peekLabel(): Promise<string | undefined> {
+    while (true) {
+      const buffer = this.#stream.buffer;
+      const end = buffer.indexOf(": ");
+      const newline = buffer.indexOf("\n");
+      if (end >= 0 && (newline === -1 || end < newline)) {
+        return end <= maxLabelLength ? buffer.slice(0, end) : undefined;
+      } else if (newline >= 0 || buffer.length > maxLabelLength + 1) {
+        return undefined;
+      } else if (!await this.#stream.pull()) {
+        return undefined;
       }
     }
-    return false;
   }
 
-  async startsWithCodeBlockHeader() {
-    for (const lang of allLanguages) {
-      if (await this.#stream.startsWith("```" + lang + "\n")) {
+  /**
+   * Returns true if the next line starts with up to three spaces and then
+   * three backticks or tildes, so it might be a code fence.
+   *
+   * Only looks ahead as far as needed, so that other lines can be streamed
+   * before they're complete.
+   */
+  async atFenceChars(): Promise<boolean> {
+    for (const indent of ["", " ", "  ", "   "]) {
+      if (
+        await this.#stream.startsWith(indent + "```") ||
+        await this.#stream.startsWith(indent + "~~~")
+      ) {
         return true;
       }
     }
     return false;
   }
 
-  async copyMarkdown(output: CellWriter): Promise<void> {
-    if (await this.skipCodeBlockHeader()) {
+  /** Returns the fence if the next line opens a fenced code block. */
+  async peekFenceOpen(): Promise<Fence | undefined> {
+    if (!await this.atFenceChars()) {
+      return undefined;
+    }
+    return parseFenceOpen(await this.#stream.peekLine());
+  }
+
+  /** Returns true if the next line opens a code block containing a cell output. */
+  async atOutputFence(): Promise<boolean> {
+    const fence = await this.peekFenceOpen();
+    return !!fence && isOutputFence(fence);
+  }
+
+  /** Returns true if the next line opens a code block that becomes a cell. */
+  async startsWithCodeBlockHeader(): Promise<boolean> {
+    const fence = await this.peekFenceOpen();
+    return !!fence && this.chooseAction(fence).type !== "markdown";
+  }
+
+  private chooseAction(fence: Fence): CodeBlockAction {
+    return this.#codeBlocks.choose(fenceLanguage(fence));
+  }
+
+  /**
+   * Copies a Markdown cell, adding a cue if needed.
+   * @param cued true if the cue was already written, so a cue from the bot is dropped.
+   */
+  async copyMarkdown(output: CellWriter, cued = false): Promise<void> {
+    if (await this.startsWithCodeBlockHeader()) {
       await this.copyCodeBlock(output);
+    } else if (cued) {
+      await this.skipCue();
     } else {
       await this.copyOrAddCue(output);
     }
+    await this.copyMarkdownLines(output);
+  }
 
-    while (!this.#stream.atEnd && !await this.matchHeaderLine()) {
-      if (await this.skipCodeBlockHeader()) {
+  /** Copies Markdown until the cell ends, converting code blocks as needed. */
+  private async copyMarkdownLines(output: CellWriter) {
+    while (
+      !this.#stream.atEnd && !this.#stopped && !await this.atCellBoundary()
+    ) {
+      if (await this.copyReasoning(output)) {
+        continue;
+      }
+      const fence = await this.peekFenceOpen();
+      if (fence && isOutputFence(fence)) {
+        await this.copyInventedOutputBlock(output, fence);
+      } else if (fence && this.chooseAction(fence).type !== "markdown") {
         await this.copyCodeBlock(output);
+      } else if (fence) {
+        await this.copyOtherCodeBlock(output, fence);
       } else if (!await this.#stream.copyLineTo(output)) {
         throw CANCELLED;
       }
     }
   }
 
+  /**
+   * Copies a fenced code block that's not in a known language as Markdown.
+   * Code blocks nested inside it are left alone.
+   */
+  private async copyOtherCodeBlock(output: Writer, fence: Fence) {
+    if (!await output.write(await this.#stream.takeLine())) {
+      throw CANCELLED;
+    }
+    while (!this.#stream.atEnd && !await this.atCellBoundary()) {
+      const done = await this.atFenceChars() &&
+        isFenceClose(await this.#stream.peekLine(), fence);
+      if (!await this.#stream.copyLineTo(output)) {
+        throw CANCELLED;
+      }
+      if (done) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Copies a code block to a new cell, as chosen by the code block policy.
+   * The next line should be its opening fence.
+   *
+   * Ends at a closing fence that's at least as long as the opening one.
+   * The fence's indentation is removed from each line, as in CommonMark.
+   */
   async copyCodeBlock(output: CellWriter): Promise<void> {
-    await output.startCodeCell();
+    const fence = parseFenceOpen(await this.#stream.takeLine());
+    if (!fence) {
+      throw new Error("expected a code fence");
+    }
 
-    while (true) {
-      if (this.atEnd) {
-        return;
-      } else if (await this.#stream.startsWith("```")) {
-        const line = await this.#stream.takeLine();
-        if (/^```[ \t]*\n?$/.test(line)) {
-          break; // found end of codeblock
-        }
+    const action = this.chooseAction(fence);
+    await this.startCell(output, action);
+    const prefix = action.type === "prefix" ? action.prefix : "";
+
+    while (!this.atEnd) {
+      if (
+        await this.atFenceChars() &&
+        isFenceClose(await this.#stream.peekLine(), fence)
+      ) {
+        await this.#stream.takeLine();
+        break; // found end of codeblock
+      }
 
-        if (!await output.write(line)) {
-          throw CANCELLED;
+      for (let i = 0; i < fence.indent; i++) {
+        if (!await this.#stream.takeMatchingChar(" ")) {
+          break;
         }
-      } else {
-        if (!await this.#stream.copyLineTo(output)) {
+      }
+      const blank = await this.#stream.takeBlankLine();
+      if (blank) {
+        if (!await output.write(blank)) {
           throw CANCELLED;
         }
+        continue;
+      }
+      if (prefix && !await output.write(prefix)) {
+        throw CANCELLED;
+      }
+      if (!await this.#stream.copyLineTo(output)) {
+        throw CANCELLED;
       }
     }
 
+    await this.finishCodeBlock(output);
+  }
+
+  /**
+   * Handles what comes after a code block's closing fence. Any Markdown after
+   * it starts a new cell.
+   */
+  private async finishCodeBlock(output: CellWriter) {
     await this.skipBlankLines();
+    while (this.#inventedOutput !== "quarantine") {
+      // An output that's dropped shouldn't start a Markdown cell.
+      const fence = await this.peekFenceOpen();
+      if (!fence || !isOutputFence(fence)) {
+        break;
+      }
+      await this.copyInventedOutputBlock(output, fence);
+      if (this.#stopped) {
+        return;
+      }
+      await this.skipBlankLines();
+    }
+
     if (
-      !this.atEnd && !await this.matchHeaderLine() &&
+      !this.atEnd && !await this.atCellBoundary() &&
       !await this.startsWithCodeBlockHeader()
     ) {
       await output.startMarkdownCell();
-      await this.copyOrAddCue(output);
+      if (!await this.atOutputFence()) {
+        await this.copyOrAddCue(output);
+      }
     }
   }
 
-  async copyCodeCell(output: Writer): Promise<void> {
-    while (!this.#stream.atEnd) {
-      if (await this.matchHeaderLine()) {
+  /**
+   * Copies the rest of a code cell that was cut off. In the Markdown format,
+   * the cell was written as a code block, so it also ends at a closing fence.
+   */
+  private async continueCodeCell(output: CellWriter) {
+    const fenced = !this.#format.cellHeader("markdown");
+    while (!this.atEnd && !await this.atCellBoundary()) {
+      if (
+        fenced && await this.atFenceChars() &&
+        isFenceClose(await this.#stream.peekLine(), continuedFence)
+      ) {
+        await this.#stream.takeLine();
+        await this.finishCodeBlock(output);
         return;
       }
       if (!await this.#stream.copyLineTo(output)) {
@@ -201,47 +711,114 @@ export class BotResponse {
       }
     }
   }
-}
 
-export const checkCueLabel = async (input: string): Promise<boolean> => {
-  if (input.trim() !== input || input === "") {
-    return false;
-  }
-
-  let reads = 0;
-  const reader: Reader = {
-    read: function (): Promise<ReadResult> {
-      reads++;
-      if (reads === 1) {
-        return Promise.resolve(input);
-      } else {
-        return Promise.resolve(DONE);
+  /** Starts the cell for a code block or a header line, unless it stays in Markdown. */
+  private async startCell(output: CellWriter, action: CodeBlockAction) {
+    if (action.type === "raw") {
+      await output.startRawCell();
+    } else if (action.type === "cell") {
+      await output.startCodeCell(action.languageId);
+    } else {
+      await output.startCodeCell();
+    }
+    if (action.type === "magic") {
+      if (!await output.write(action.firstLine + "\n")) {
+        throw CANCELLED;
       }
-    },
-  };
-
-  const scanner = new Scanner(reader);
-  const label = await takeLabel(scanner);
-  return label === input && scanner.atEnd;
-};
+    }
+  }
 
-const labelChars =
-  "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789 ";
+  /**
+   * Copies a cell that starts with a header line, such as `%bash`.
+   * The code block policy decides what to do with it, as for a code block
+   * in the same language.
+   *
+   * @param language the language's name in the header line.
+   */
+  private async copyHeaderCell(output: CellWriter, language: string) {
+    const action = this.#codeBlocks.choose(language);
+    if (action.type !== "markdown") {
+      await this.startCell(output, action);
+      await this.skipBlankLines();
+      await this.copyCodeCell(
+        output,
+        action.type === "prefix" ? action.prefix : "",
+      );
+      return;
+    }
 
-const takeLabel = async (stream: Scanner): Promise<string> => {
-  let name = "";
-  while (true) {
-    const char = await stream.takeMatchingChar(labelChars);
-    if (char) {
-      name += char;
-      continue;
+    // Write it as a code block in a Markdown cell.
+    await output.startMarkdownCell();
+    if (!await output.write(`${this.#defaultCue}: \n\`\`\`${language}\n`)) {
+      throw CANCELLED;
     }
-    const emoji = await stream.takeEmoji();
-    if (emoji) {
-      name += emoji;
-      continue;
+    await this.skipBlankLines();
+    let last = "";
+    await this.copyCodeCell({
+      write: (data) => {
+        last = data || last;
+        return output.write(data);
+      },
+    });
+    const close = last.endsWith("\n") ? "```\n" : "\n```\n";
+    if (!await output.write(close)) {
+      throw CANCELLED;
     }
-    break;
   }
-  return name;
+
+  /**
+   * Copies lines until the next cell boundary.
+   * @param prefix added to the start of each line that's not blank.
+   */
+  async copyCodeCell(output: Writer, prefix = ""): Promise<void> {
+    while (!this.#stream.atEnd) {
+      if (await this.atCellBoundary()) {
+        return;
+      }
+      if (prefix) {
+        const blank = await this.#stream.takeBlankLine();
+        if (blank) {
+          if (!await output.write(blank)) {
+            throw CANCELLED;
+          }
+          continue;
+        }
+        if (!await output.write(prefix)) {
+          throw CANCELLED;
+        }
+      }
+      if (!await this.#stream.copyLineTo(output)) {
+        throw CANCELLED;
+      }
+    }
+  }
+}
+
+/**
+ * The fence of a code cell that's being continued. The prompt may have used
+ * a longer one, but the bot usually closes it with three backticks.
+ */
+const continuedFence: Fence = {
+  char: "`",
+  length: 3,
+  indent: 0,
+  info: "",
 };
+
+/** Returns true if a code block contains a cell output, in the Markdown format. */
+const isOutputFence = (fence: Fence): boolean =>
+  (allOutputKinds as readonly string[]).includes(fenceLanguage(fence));
+
+/**
+ * Returns true if the cue can be used. It may be a template with placeholders,
+ * such as `🤖 {model}`.
+ */
+export const checkCueLabel = async (input: string): Promise<boolean> =>
+  isValidCueTemplate(input);
+
+/** The longest label that's recognized at the start of a Markdown cell. */
+const maxLabelLength = 80;
+
+/** Returns true if the text looks like a name, made of letters, digits, spaces, and emoji. */
+const isLabel = (text: string): boolean =>
+  /^(?:[a-zA-Z0-9 ]|\p{Emoji_Presentation})+$/u.test(text);
@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+
+import { isProvenance, Provenance } from "./provenance";
+import { Alternatives, isAlternatives } from "./alternatives";
+
+/** The key for Bot Typist's settings within a cell's Jupyter metadata. */
+export const metadataKey = "bot-typist";
+
+/** Per-cell settings that are saved with the notebook. */
+export interface BotCellMetadata {
+  /** If true, the cell is never sent to the bot. */
+  hidden?: boolean;
+
+  /** If true, the cell is sent to the bot even if it's above the start of the chat. */
+  pinned?: boolean;
+
+  /** True if the bot wrote the cell. */
+  fromBot?: boolean;
+
+  /** How the bot wrote the cell, if it was written by a version that records it. */
+  provenance?: Provenance;
+
+  /**
+   * Identifies the reply that the cell is part of. The cells that the bot
+   * writes in one reply share it.
+   */
+  reply?: string;
+
+  /** For a question that the bot replied to more than once, the replies. */
+  alternatives?: Alternatives;
+}
+
+/**
+ * Returns the Jupyter metadata for a cell, which is what gets saved in the .ipynb file.
+ *
+ * Depending on its version, VS Code's ipynb serializer keeps it in either
+ * `metadata.custom.metadata` or `metadata.metadata`.
+ */
+function getJupyterMetadata(
+  metadata: { [key: string]: any },
+): { [key: string]: any } {
+  return metadata.custom?.metadata ?? metadata.metadata ?? {};
+}
+
+function withJupyterMetadata(
+  metadata: { [key: string]: any },
+  jupyter: { [key: string]: any },
+): { [key: string]: any } {
+  if (metadata.custom) {
+    return { ...metadata, custom: { ...metadata.custom, metadata: jupyter } };
+  }
+  return { ...metadata, metadata: jupyter };
+}
+
+/** Returns the cell's Jupyter tags. */
+export function getCellTags(cell: vscode.NotebookCell): string[] {
+  const tags = getJupyterMetadata(cell.metadata).tags;
+  return Array.isArray(tags) ? tags : [];
+}
+
+export function getBotMetadata(cell: vscode.NotebookCell): BotCellMetadata {
+  return getJupyterMetadata(cell.metadata)[metadataKey] ?? {};
+}
+
+/** Returns the bot's replies to a question, or undefined if there's only one. */
+export function getAlternatives(
+  cell: vscode.NotebookCell,
+): Alternatives | undefined {
+  const alternatives = getBotMetadata(cell).alternatives;
+  return isAlternatives(alternatives) ? alternatives : undefined;
+}
+
+/**
+ * Returns the metadata for a new cell with the given Bot Typist metadata,
+ * in the same format as an existing cell in the notebook.
+ */
+export function newCellMetadata(
+  like: vscode.NotebookCell,
+  bot: BotCellMetadata,
+): { [key: string]: any } {
+  const empty = like.metadata.custom ? { custom: {} } : {};
+  return withJupyterMetadata(empty, { [metadataKey]: bot });
+}
+
+/** Returns how the bot wrote a cell, or undefined if not recorded. */
+export function getProvenance(
+  cell: vscode.NotebookCell,
+): Provenance | undefined {
+  const provenance = getBotMetadata(cell).provenance;
+  return isProvenance(provenance) ? provenance : undefined;
+}
+
+/**
+ * Creates an edit that changes a cell's Bot Typist metadata.
+ * Properties set to undefined are removed.
+ */
+export function editBotMetadata(
+  cell: vscode.NotebookCell,
+  changes: Partial<BotCellMetadata>,
+): vscode.NotebookEdit {
+  const jupyter = { ...getJupyterMetadata(cell.metadata) };
+
+  const updated: { [key: string]: any } = {
+    ...jupyter[metadataKey],
+    ...changes,
+  };
+  for (const key of Object.keys(updated)) {
+    if (updated[key] === undefined) {
+      delete updated[key];
+    }
+  }
+
+  if (Object.keys(updated).length === 0) {
+    delete jupyter[metadataKey];
+  } else {
+    jupyter[metadataKey] = updated;
+  }
+
+  const metadata = withJupyterMetadata(cell.metadata, jupyter);
+  return vscode.NotebookEdit.updateCellMetadata(cell.index, metadata);
+}
+
+/** Changes a cell's Bot Typist metadata. */
+export async function updateBotMetadata(
+  cell: vscode.NotebookCell,
+  changes: Partial<BotCellMetadata>,
+): Promise<boolean> {
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(cell.notebook.uri, [editBotMetadata(cell, changes)]);
+  return await vscode.workspace.applyEdit(edit);
+}
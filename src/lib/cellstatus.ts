@@ -0,0 +1,173 @@
+import * as vscode from "vscode";
+
+import {
+  getAlternatives,
+  getBotMetadata,
+  getProvenance,
+} from "./cellmetadata";
+import { describeProvenance } from "./provenance";
+
+/**
+ * Shows whether a cell is hidden from the bot or pinned, below the cell.
+ * For cells that the bot wrote, also shows which model wrote them, and for
+ * questions that the bot replied to more than once, which reply is shown.
+ */
+export class BotCellStatusProvider
+  implements vscode.NotebookCellStatusBarItemProvider {
+  readonly #changed = new vscode.EventEmitter<void>();
+  readonly onDidChangeCellStatusBarItems = this.#changed.event;
+
+  /** Asks VS Code to update the status bar items, after metadata changes. */
+  refresh() {
+    this.#changed.fire();
+  }
+
+  provideCellStatusBarItems(
+    cell: vscode.NotebookCell,
+  ): vscode.NotebookCellStatusBarItem[] {
+    const meta = getBotMetadata(cell);
+    const items: vscode.NotebookCellStatusBarItem[] = [];
+
+    if (meta.hidden) {
+      const item = new vscode.NotebookCellStatusBarItem(
+        "$(eye-closed) Hidden from bot",
+        vscode.NotebookCellStatusBarAlignment.Left,
+      );
+      item.tooltip = "This cell won't be sent to the bot. Click to include it.";
+      item.command = {
+        title: "Toggle Hiding Cell from Bot",
+        command: "bot-typist.toggle-hidden",
+        arguments: [cell],
+      };
+      items.push(item);
+    }
+
+    if (meta.pinned) {
+      const item = new vscode.NotebookCellStatusBarItem(
+        "$(pinned) Pinned for bot",
+        vscode.NotebookCellStatusBarAlignment.Left,
+      );
+      item.tooltip =
+        "This cell is always sent to the bot, even above the start of the chat. Click to unpin it.";
+      item.command = {
+        title: "Toggle Pinning Cell for Bot",
+        command: "bot-typist.toggle-pinned",
+        arguments: [cell],
+      };
+      items.push(item);
+    }
+
+    const alts = getAlternatives(cell);
+    if (alts && alts.replies.length > 1) {
+      const previous = new vscode.NotebookCellStatusBarItem(
+        "$(chevron-left)",
+        vscode.NotebookCellStatusBarAlignment.Right,
+      );
+      previous.tooltip = "Show the previous reply";
+      previous.command = {
+        title: "Show Previous Bot Reply",
+        command: "bot-typist.previous-reply",
+        arguments: [cell],
+      };
+
+      const position = new vscode.NotebookCellStatusBarItem(
+        `${alts.selected + 1}/${alts.replies.length}`,
+        vscode.NotebookCellStatusBarAlignment.Right,
+      );
+      position.tooltip = "Which of the bot's replies is shown";
+
+      const next = new vscode.NotebookCellStatusBarItem(
+        "$(chevron-right)",
+        vscode.NotebookCellStatusBarAlignment.Right,
+      );
+      next.tooltip = "Show the next reply";
+      next.command = {
+        title: "Show Next Bot Reply",
+        command: "bot-typist.next-reply",
+        arguments: [cell],
+      };
+
+      items.push(previous, position, next);
+    }
+
+    const provenance = getProvenance(cell);
+    if (provenance) {
+      const item = new vscode.NotebookCellStatusBarItem(
+        `$(hubot) ${provenance.model || "Bot"}`,
+        vscode.NotebookCellStatusBarAlignment.Right,
+      );
+      item.tooltip = describeProvenance(provenance);
+      items.push(item);
+    } else if (meta.fromBot) {
+      const item = new vscode.NotebookCellStatusBarItem(
+        "$(hubot) Bot",
+        vscode.NotebookCellStatusBarAlignment.Right,
+      );
+      item.tooltip = "Written by the bot";
+      items.push(item);
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Dims the text of cells that are hidden from the bot.
+ *
+ * Only cells that have a text editor can be dimmed, so rendered Markdown cells
+ * rely on the status bar item instead.
+ */
+export class HiddenCellDimmer implements vscode.Disposable {
+  readonly #decoration = vscode.window.createTextEditorDecorationType({
+    opacity: "0.5",
+  });
+
+  readonly #disposables: vscode.Disposable[] = [this.#decoration];
+
+  constructor() {
+    this.#disposables.push(
+      vscode.window.onDidChangeVisibleTextEditors(() => this.refresh()),
+      vscode.workspace.onDidChangeNotebookDocument((e) => {
+        if (e.cellChanges.some((change) => change.metadata)) {
+          this.refresh();
+        }
+      }),
+    );
+    this.refresh();
+  }
+
+  refresh() {
+    for (const ed of vscode.window.visibleTextEditors) {
+      const cell = findCell(ed.document);
+      if (!cell) {
+        continue;
+      }
+      if (getBotMetadata(cell).hidden) {
+        const all = new vscode.Range(0, 0, ed.document.lineCount, 0);
+        ed.setDecorations(this.#decoration, [all]);
+      } else {
+        ed.setDecorations(this.#decoration, []);
+      }
+    }
+  }
+
+  dispose() {
+    for (const d of this.#disposables) {
+      d.dispose();
+    }
+    this.#disposables.length = 0;
+  }
+}
+
+/** Returns the notebook cell that contains a text document, if any. */
+export function findCell(
+  doc: vscode.TextDocument,
+): vscode.NotebookCell | undefined {
+  for (const notebook of vscode.workspace.notebookDocuments) {
+    const cell = notebook.getCells().find((cell) => cell.document === doc);
+    if (cell) {
+      return cell;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,276 @@
+import * as http from "http";
+import * as https from "https";
+
+import { BotPrompt } from "./botrequest";
+import { CANCELLED } from "./botresponse";
+import { OutputChannel } from "./llm";
+import {
+  copyStream,
+  DONE,
+  readAll,
+  Reader,
+  ReadHandler,
+  ReadResult,
+} from "./streams";
+
+export type ChatConfig = {
+  /** The API's base URL, such as `https://api.openai.com/v1`. */
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  systemPrompt: string;
+  stop: string;
+
+  /** If set, overrides the model's default temperature. */
+  temperature?: number;
+};
+
+/** Indicates that the chat API responded with an error status. */
+export class ChatApiError extends Error {
+  readonly status: number;
+  readonly body: string;
+
+  constructor(status: number, body: string) {
+    super(`chat API responded with status ${status}`);
+    this.status = status;
+    this.body = body;
+  }
+
+  toString() {
+    return this.message;
+  }
+}
+
+type ContentPart =
+  | { type: "text"; text: string }
+  /* eslint-disable-next-line @typescript-eslint/naming-convention */
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ContentPart[];
+}
+
+/**
+ * Converts a prompt to messages for a chat completions API.
+ * Any images are attached to the last user message.
+ */
+export function chatMessages(
+  prompt: BotPrompt,
+  systemPrompt: string,
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (systemPrompt) {
+    messages.push({ role: "system", content: systemPrompt });
+  }
+  for (const turn of prompt.turns) {
+    messages.push({ role: turn.role, content: turn.text });
+  }
+
+  const last = [...messages].reverse().find((m) => m.role === "user");
+  if (last && prompt.images.length > 0) {
+    const images: ContentPart[] = prompt.images.map((image) => ({
+      type: "image_url",
+      /* eslint-disable-next-line @typescript-eslint/naming-convention */
+      image_url: {
+        url: `data:${image.mime};base64,${
+          Buffer.from(image.data).toString("base64")
+        }`,
+      },
+    }));
+    last.content = [{ type: "text", text: last.content as string }, ...images];
+  }
+
+  return messages;
+}
+
+/**
+ * Reads the text of a streaming chat completion.
+ *
+ * The input is a stream of server-sent events. Each event contains a chunk of JSON
+ * with the next piece of the bot's reply.
+ *
+ * @param onResponseId called with the response's id, if the server sends one.
+ */
+export function readChatStream(
+  input: Reader,
+  onResponseId?: (id: string) => void,
+): Reader {
+  let buffer = "";
+  let done = false;
+
+  const takeLine = (): string | undefined => {
+    const end = buffer.indexOf("\n");
+    if (end === -1) {
+      return undefined;
+    }
+    const line = buffer.slice(0, end).replace(/\r$/, "");
+    buffer = buffer.slice(end + 1);
+    return line;
+  };
+
+  return {
+    async read(): Promise<ReadResult> {
+      while (!done) {
+        let line = takeLine();
+        if (line === undefined) {
+          const chunk = await input.read();
+          if (chunk !== DONE) {
+            buffer += chunk;
+            continue;
+          }
+          // the last line might not have a newline
+          done = true;
+          line = buffer;
+          buffer = "";
+        }
+
+        if (!line.startsWith("data:")) {
+          continue;
+        }
+        const data = line.slice(5).trim();
+        if (data === "[DONE]") {
+          done = true;
+          break;
+        } else if (data === "") {
+          continue;
+        }
+
+        const json = JSON.parse(data);
+        if (json.error) {
+          throw new Error(`chat API error: ${json.error.message ?? data}`);
+        }
+        if (onResponseId && typeof json.id === "string") {
+          onResponseId(json.id);
+          onResponseId = undefined;
+        }
+        const content = json.choices?.[0]?.delta?.content;
+        if (typeof content === "string" && content !== "") {
+          return content;
+        }
+      }
+      return DONE;
+    },
+  };
+}
+
+/** The result of one request to the chat API. */
+export interface ChatReply<T> {
+  /** What the handler returned. */
+  value: T;
+
+  /** The id that the server gave the response, or the empty string if none. */
+  responseId: string;
+}
+
+/** Sends prompts to a server that implements OpenAI's chat completions API. */
+export class ChatService {
+  readonly #config: ChatConfig;
+  readonly #output: () => OutputChannel;
+
+  constructor(config: ChatConfig, output: () => OutputChannel) {
+    this.#config = config;
+    this.#output = output;
+  }
+
+  /**
+   * Checks that the settings needed to call the API are present.
+   *
+   * @returns a message describing what's missing, or the empty string if ready.
+   */
+  check(): string {
+    const config = this.#config;
+    if (!config.baseUrl) {
+      return "Please set the base URL for the chat API in settings.";
+    } else if (!config.model) {
+      return "Please choose a model for the chat API in settings.";
+    }
+    return "";
+  }
+
+  /**
+   * Sends the prompt as a conversation, streaming the bot's reply to a handler.
+   *
+   * @param signal when aborted, the request is abandoned.
+   * @returns what the handler returned, along with the response's id.
+   * @throws ChatApiError if the server responds with an error status.
+   */
+  async run<T>(
+    prompt: BotPrompt,
+    handler: ReadHandler<T>,
+    signal?: AbortSignal,
+  ): Promise<ChatReply<T>> {
+    const config = this.#config;
+
+    const out = this.#output();
+    out.clear();
+
+    const url = new URL(config.baseUrl.replace(/\/*$/, "/chat/completions"));
+    const messages = chatMessages(prompt, config.systemPrompt);
+    const body = JSON.stringify({
+      model: config.model,
+      messages,
+      stream: true,
+      ...(config.stop ? { stop: [config.stop] } : {}),
+      ...(config.temperature !== undefined
+        ? { temperature: config.temperature }
+        : {}),
+    });
+
+    out.appendLine(
+      `POST ${url} model=${config.model} messages=${messages.length}\n`,
+    );
+
+    const headers: http.OutgoingHttpHeaders = {
+      /* eslint-disable @typescript-eslint/naming-convention */
+      "Content-Type": "application/json",
+      "Content-Length": Buffer.byteLength(body),
+      /* eslint-enable @typescript-eslint/naming-convention */
+    };
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+
+    try {
+      const response = await post(url, headers, body, signal);
+      const status = response.statusCode ?? 0;
+      if (status < 200 || status >= 300) {
+        response.setEncoding("utf8");
+        const text = await copyStream(response, readAll);
+        throw new ChatApiError(status, text);
+      }
+      response.setEncoding("utf8");
+      let responseId = "";
+      const value = await copyStream(
+        response,
+        (input) => handler(readChatStream(input, (id) => responseId = id)),
+      );
+      return { value, responseId };
+    } catch (e) {
+      if (e === CANCELLED) {
+        out.appendLine("(cancelled by user)");
+      } else if (e instanceof ChatApiError) {
+        out.appendLine(`${e.message}\n${e.body}`);
+        out.show();
+      } else if (e instanceof Error) {
+        out.appendLine(`Unexpected error: ${e}`);
+        out.show();
+      }
+      throw e;
+    }
+  }
+}
+
+function post(
+  url: URL,
+  headers: http.OutgoingHttpHeaders,
+  body: string,
+  signal?: AbortSignal,
+): Promise<http.IncomingMessage> {
+  const request = url.protocol === "http:" ? http.request : https.request;
+  return new Promise((resolve, reject) => {
+    const req = request(url, { method: "POST", headers, signal }, resolve);
+    req.on("error", reject);
+    req.end(body);
+  });
+}
@@ -0,0 +1,102 @@
+import { defaultLanguageRegistry, LanguageRegistry } from "./languages";
+
+/** What to do with a fenced code block in the bot's reply. */
+export type CodeBlockAction =
+  /** Convert it to a code cell, in the given language or else the notebook's. */
+  | { type: "cell"; languageId?: string }
+  /** Leave it in the Markdown cell. */
+  | { type: "markdown" }
+  /** Convert it to a raw cell, which isn't run. */
+  | { type: "raw" }
+  /** Convert it to a code cell that starts with a cell magic, such as `%%bash`. */
+  | { type: "magic"; firstLine: string }
+  /** Convert it to a code cell with a prefix on each line, such as `!`. */
+  | { type: "prefix"; prefix: string };
+
+/**
+ * Parses an action from a setting.
+ *
+ * The setting is either `cell`, `markdown`, `raw`, a cell magic such as `%%bash`,
+ * or a line prefix such as `!` or `%sql `.
+ *
+ * @returns the action, or undefined if the setting isn't valid.
+ */
+export function parseCodeBlockAction(
+  setting: string,
+): CodeBlockAction | undefined {
+  switch (setting) {
+    case "cell":
+    case "markdown":
+    case "raw":
+      return { type: setting };
+  }
+  if (setting.startsWith("%%")) {
+    return { type: "magic", firstLine: setting.trimEnd() };
+  } else if (setting.startsWith("!") || setting.startsWith("%")) {
+    return { type: "prefix", prefix: setting };
+  }
+  return undefined;
+}
+
+/**
+ * Decides what to do with code blocks, based on their language.
+ *
+ * Code blocks in the notebook's language always become code cells. For other
+ * languages, the rules are looked up by the name in the code block's info string,
+ * then by the language's id in the registry, and then by `*`, which matches any
+ * language. Without a matching rule, they're left in the Markdown cell, unless
+ * the notebook's language isn't known yet. Then code blocks in a language from
+ * the registry become code cells.
+ *
+ * When the notebook's language is known, a code cell in another language from
+ * the registry is created in that language.
+ */
+export class CodeBlockPolicy {
+  readonly #notebookLanguage: string;
+  readonly #rules = new Map<string, CodeBlockAction>();
+  readonly #languages: LanguageRegistry;
+
+  /**
+   * @param notebookLanguage the notebook's language id, or the empty string if not known.
+   * @param rules maps language names to settings. Invalid settings are ignored.
+   */
+  constructor(
+    notebookLanguage: string,
+    rules: Record<string, string>,
+    languages = defaultLanguageRegistry,
+  ) {
+    this.#notebookLanguage = notebookLanguage;
+    this.#languages = languages;
+    for (const [name, setting] of Object.entries(rules)) {
+      const action = parseCodeBlockAction(setting);
+      if (action) {
+        this.#rules.set(name.toLowerCase(), action);
+      }
+    }
+  }
+
+  /** Chooses the action for a code block, given the language in its info string. */
+  choose(language: string): CodeBlockAction {
+    if (language === "") {
+      return { type: "markdown" };
+    }
+
+    const known = this.#languages.lookup(language);
+    const notebook = this.#languages.lookup(this.#notebookLanguage);
+    if (known && known === notebook) {
+      return { type: "cell" };
+    }
+
+    const rule = this.#rules.get(language.toLowerCase()) ??
+      (known && this.#rules.get(known.id.toLowerCase())) ??
+      this.#rules.get("*");
+    const action: CodeBlockAction = rule ??
+      (known && this.#notebookLanguage === ""
+        ? { type: "cell" }
+        : { type: "markdown" });
+    if (action.type === "cell" && known && this.#notebookLanguage !== "") {
+      return { type: "cell", languageId: known.id };
+    }
+    return action;
+  }
+}
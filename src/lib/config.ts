@@ -1,8 +1,145 @@
 import * as vscode from "vscode";
 import * as llm from "./llm";
+import { ChatStartOptions } from "./botrequest";
+import { allTracebackStyles, TracebackStyle } from "./tracebacks";
+import { getTranscriptFormat, TranscriptFormat } from "./transcript";
+import { defaultLanguages, Language, LanguageRegistry } from "./languages";
+import {
+  allInventedOutputActions,
+  allReasoningActions,
+  InventedOutputAction,
+  ReasoningOptions,
+} from "./botresponse";
 
 export interface Config extends llm.Config {
+  /** The cue template, which may contain placeholders such as `{model}`. */
   cue: string;
+
+  /** The bot's name, for the `{persona}` placeholder in the cue. */
+  persona: string;
+
+  /** The maximum number of tokens to send to the model, or 0 for no limit. */
+  tokenBudget: number;
+
+  /** The token budget for each model, with "default" for any other model. */
+  tokenBudgets: Record<string, number>;
+
+  /** The maximum number of lines to send from each cell output, or 0 for no limit. */
+  maxOutputLines: number;
+
+  /** The maximum number of characters to send from each cell output, or 0 for no limit. */
+  maxOutputChars: number;
+
+  /** The maximum number of images to attach, or 0 if images aren't attached. */
+  maxImages: number;
+
+  /** The maximum total size of attached images, in bytes. */
+  maxImageBytes: number;
+
+  tracebackStyle: TracebackStyle;
+
+  chatStart: ChatStartOptions;
+
+  format: TranscriptFormat;
+
+  backend: Backend;
+
+  languages: LanguageRegistry;
+
+  /** Maps the language of a code block to what should be done with it. */
+  codeBlocks: Record<string, string>;
+
+  inventedOutput: InventedOutputAction;
+
+  reasoning: ReasoningOptions;
+
+  writeMode: WriteMode;
+
+  agent: {
+    /** If false, the bot's code is never run automatically. */
+    enabled: boolean;
+
+    /** The most replies to insert in one run, including the first. */
+    maxReplies: number;
+  };
+
+  chatApi: {
+    baseUrl: string;
+
+    /** The API key, read from the environment. */
+    apiKey: string;
+  };
+}
+
+export const allBackends = ["llm", "chat-api"] as const;
+
+export type Backend = typeof allBackends[number];
+
+/** Settings that can be changed for a single reply, such as when regenerating it. */
+export interface ReplyOverrides {
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * Returns a copy of the config with any overrides applied.
+ * The token budget is recomputed for the model that will be used.
+ */
+export function applyOverrides(
+  config: Config,
+  overrides: ReplyOverrides,
+): Config {
+  const model = overrides.model || config.model;
+  return {
+    ...config,
+    model,
+    temperature: overrides.temperature ?? config.temperature,
+    tokenBudget: chooseTokenBudget(config.tokenBudgets, model),
+  };
+}
+
+/** Returns the token budget for a model, or 0 if there's no limit. */
+export function chooseTokenBudget(
+  budgets: Record<string, number>,
+  model: string,
+): number {
+  return budgets[model || "default"] ?? budgets["default"] ?? 0;
+}
+
+export const allWriteModes = ["type", "background"] as const;
+
+/**
+ * How the bot's reply is written into the notebook.
+ *
+ * - `type` types it into the current cell's editor, and stops if the user moves elsewhere.
+ * - `background` edits the notebook directly, so the user can keep working.
+ */
+export type WriteMode = typeof allWriteModes[number];
+
+/** Returns true if a setting has a value other than the extension's default. */
+function isSet(conf: vscode.WorkspaceConfiguration, key: string): boolean {
+  const values = conf.inspect(key);
+  if (!values) {
+    return false;
+  }
+  return [
+    values.globalValue,
+    values.workspaceValue,
+    values.workspaceFolderValue,
+    values.globalLanguageValue,
+    values.workspaceLanguageValue,
+    values.workspaceFolderLanguageValue,
+  ].some((value) => value !== undefined);
+}
+
+/** Returns the built-in languages, with any additions or changes from settings. */
+export function getLanguageRegistry(): LanguageRegistry {
+  const conf = vscode.workspace.getConfiguration("bot-typist");
+  const custom = conf.get<Language[]>("languages") ?? [];
+  const valid = custom.filter((lang) =>
+    typeof lang?.id === "string" && lang.id !== ""
+  );
+  return new LanguageRegistry([...defaultLanguages, ...valid]);
 }
 
 export const getConfig = (languageId: string): Config => {
@@ -10,14 +147,110 @@ export const getConfig = (languageId: string): Config => {
   const conf = vscode.workspace.getConfiguration("bot-typist", scope);
 
   const path = conf.get<string>("llm.path")?.trim() ?? "llm";
-  const systemPrompt = conf.get<string>("llm.systemPrompt")?.trim() ?? "";
+  // The default system prompt depends on the language.
+  const languages = getLanguageRegistry();
+  const systemPrompt = (isSet(conf, "llm.systemPrompt")
+    ? conf.get<string>("llm.systemPrompt")
+    : languages.systemPrompt(languageId) ??
+      conf.get<string>("llm.systemPrompt"))?.trim() ?? "";
   const model = conf.get<string>("llm.model")?.trim() ?? "";
-  const stop = conf.get<string>("llm.stop") ?? "";
+  const format = getTranscriptFormat(
+    conf.get<string>("prompt.format") ?? "percent",
+  );
+
+  const action = conf.get<string>("reply.inventedOutput") ?? "stop";
+  const inventedOutput = allInventedOutputActions.find((a) => a === action) ??
+    "stop";
+
+  const reasoningAction = conf.get<string>("reply.reasoning") ?? "collapse";
+  const reasoning: ReasoningOptions = {
+    action: allReasoningActions.find((a) => a === reasoningAction) ??
+      "collapse",
+    delimiters: (conf.get<string[][]>("reply.reasoningDelimiters") ?? [])
+      .filter((pair) => pair.length === 2 && pair[0] !== "" && pair[1] !== "")
+      .map(([start, end]) => [start, end]),
+  };
+
+  // The default stop sequence depends on the format. It's only needed if
+  // the bot should stop when it starts writing a cell output.
+  const stop = isSet(conf, "llm.stop")
+    ? conf.get<string>("llm.stop") ?? ""
+    : inventedOutput === "stop"
+    ? format.stopSequence
+    : "";
+
   const extraArgs = conf.get<string[]>("llm.extraArguments") ?? [];
 
+  const tokenBudgets = conf.get<Record<string, number>>("llm.tokenBudgets") ??
+    {};
+  const tokenBudget = chooseTokenBudget(tokenBudgets, model);
+
+  const maxOutputLines = conf.get<number>("prompt.maxOutputLines") ?? 0;
+  const maxOutputChars = conf.get<number>("prompt.maxOutputChars") ?? 0;
+
+  const attachImages = conf.get<boolean>("llm.attachImages") ?? false;
+  const maxImages = attachImages ? conf.get<number>("llm.maxImages") ?? 0 : 0;
+  const maxImageBytes = conf.get<number>("llm.maxImageBytes") ?? 0;
+
+  const style = conf.get<string>("prompt.tracebackStyle") ?? "plain";
+  const tracebackStyle = allTracebackStyles.find((s) => s === style) ??
+    "plain";
+
+  const chatStart: ChatStartOptions = {
+    horizontalRules: conf.get<boolean>("prompt.horizontalRuleStartsChat") ??
+      true,
+    marker: conf.get<string>("prompt.chatStartMarker")?.trim() ?? "",
+    tag: conf.get<string>("prompt.chatStartTag")?.trim() ?? "",
+  };
+
   const cue = conf.get<string>("cue")?.trim() ?? "🤖";
+  const persona = conf.get<string>("persona")?.trim() ?? "";
+
+  const codeBlocks = conf.get<Record<string, string>>("codeBlocks") ?? {};
+
+  const backendName = conf.get<string>("backend") ?? "llm";
+  const backend = allBackends.find((b) => b === backendName) ?? "llm";
+
+  const agent = {
+    enabled: conf.get<boolean>("agent.enabled") ?? false,
+    maxReplies: Math.max(1, conf.get<number>("agent.maxReplies") ?? 3),
+  };
+
+  const writeModeName = conf.get<string>("reply.writeMode") ?? "type";
+  const writeMode = allWriteModes.find((m) => m === writeModeName) ?? "type";
+
+  const keyVariable = conf.get<string>("chatApi.apiKeyVariable")?.trim() ?? "";
+  const chatApi = {
+    baseUrl: conf.get<string>("chatApi.baseUrl")?.trim() ?? "",
+    apiKey: keyVariable ? process.env[keyVariable] ?? "" : "",
+  };
 
-  return { path, model, systemPrompt, stop, extraArgs, cue };
+  return {
+    path,
+    model,
+    systemPrompt,
+    stop,
+    extraArgs,
+    cue,
+    persona,
+    tokenBudget,
+    tokenBudgets,
+    maxOutputLines,
+    maxOutputChars,
+    maxImages,
+    maxImageBytes,
+    tracebackStyle,
+    chatStart,
+    format,
+    backend,
+    chatApi,
+    languages,
+    codeBlocks,
+    inventedOutput,
+    reasoning,
+    writeMode,
+    agent,
+  };
 };
 
 export function extraArgsChangedFromDefault(languageId: string): boolean {
@@ -0,0 +1,73 @@
+/** Values that can appear in a cue template. */
+export interface CueVariables {
+  /** The model's name, or the empty string if it's the default. */
+  model: string;
+
+  /** The bot's name, as chosen in settings. */
+  persona: string;
+
+  /** When the reply started. */
+  time: Date;
+}
+
+const placeholder = /\{(model|persona|time)\}/g;
+
+/** Used when a template expands to nothing. */
+const fallbackCue = "🤖";
+
+const formatTime = (time: Date): string =>
+  `${String(time.getHours()).padStart(2, "0")}:${
+    String(time.getMinutes()).padStart(2, "0")
+  }`;
+
+/**
+ * Fills in a cue template, such as `🤖 {model}`.
+ *
+ * Placeholders without a value are removed, along with any extra spaces.
+ */
+export function expandCue(template: string, vars: CueVariables): string {
+  const values: Record<string, string> = {
+    model: vars.model,
+    persona: vars.persona,
+    time: formatTime(vars.time),
+  };
+  const cue = template.replace(placeholder, (_, name) => values[name])
+    .replace(/ {2,}/g, " ").trim();
+  return cue === "" ? fallbackCue : cue;
+}
+
+/**
+ * Returns true if a cue template can be used.
+ *
+ * It shouldn't have a colon outside a placeholder, since that would be
+ * mistaken for the end of the cue. It needs some text besides placeholders,
+ * or any label at the start of a cell would match it.
+ */
+export function isValidCueTemplate(template: string): boolean {
+  const literal = template.replace(placeholder, "");
+  return template.trim() === template && literal.trim() !== "" &&
+    !/[:\n]/.test(literal);
+}
+
+const escapeRegExp = (text: string): string =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Returns a pattern that matches the start of a Markdown cell that begins
+ * with any expansion of the template, followed by a colon.
+ *
+ * For example, `🤖 {model}` matches `🤖 gpt-4: ` and `🤖: `.
+ */
+export function cuePattern(template: string): RegExp {
+  const parts = template.split(placeholder);
+  let source = "";
+  for (let i = 0; i < parts.length; i++) {
+    // Every other part is the name of a placeholder. A value can contain
+    // a colon, as in `llama3:8b`, but not the ": " that ends the cue.
+    // Spaces may be collapsed when a placeholder is empty.
+    source += i % 2 === 0
+      ? escapeRegExp(parts[i]).replace(/ +/g, " *")
+      : "(?:(?!: )[^\\n])*?";
+  }
+  return new RegExp(`^(?:${source}|${escapeRegExp(fallbackCue)}):(?: |$)`);
+}
@@ -0,0 +1,56 @@
+/** The opening line of a fenced code block in Markdown. */
+export interface Fence {
+  /** The character used for the fence: a backtick or a tilde. */
+  char: "`" | "~";
+
+  /** The number of fence characters. The closing fence must be at least as long. */
+  length: number;
+
+  /** The number of spaces before the fence. */
+  indent: number;
+
+  /** The text after the fence characters, trimmed. */
+  info: string;
+}
+
+/**
+ * Parses the opening line of a fenced code block, as defined by CommonMark.
+ * The line may include a trailing newline.
+ *
+ * @returns the fence, or undefined if the line doesn't start a code block.
+ */
+export function parseFenceOpen(line: string): Fence | undefined {
+  const match = /^( {0,3})(`{3,}|~{3,})([^\n]*)\n?$/.exec(line);
+  if (!match) {
+    return undefined;
+  }
+  const [, indent, fence, info] = match;
+  if (fence[0] === "`" && info.includes("`")) {
+    // not allowed by CommonMark (it's inline code instead)
+    return undefined;
+  }
+  return {
+    char: fence[0] as "`" | "~",
+    length: fence.length,
+    indent: indent.length,
+    info: info.trim(),
+  };
+}
+
+/**
+ * Returns true if the line closes a code block that was opened with the given fence.
+ * The line may include a trailing newline.
+ */
+export function isFenceClose(line: string, open: Fence): boolean {
+  const match = /^ {0,3}(`{3,}|~{3,})[ \t]*\n?$/.exec(line);
+  return !!match && match[1][0] === open.char &&
+    match[1].length >= open.length;
+}
+
+/**
+ * Returns the language named by a code block's info string, which is its first word.
+ * For example, the language of "```python title=x" is "python".
+ */
+export function fenceLanguage(open: Fence): string {
+  return open.info.split(/[ \t]/, 1)[0];
+}
@@ -0,0 +1,114 @@
+/** A programming language that the bot can write code cells in. */
+export interface Language {
+  /** The VS Code language id, such as `python`. */
+  id: string;
+
+  /** The language's name as written in the system prompt. Defaults to the id. */
+  name?: string;
+
+  /** Other names for the language in a code block's info string, such as `py`. */
+  aliases?: string[];
+
+  /**
+   * The default system prompt for notebooks in this language.
+   * `{language}` is replaced with the language's name and `{id}` with its id.
+   */
+  systemPrompt?: string;
+}
+
+const basePrompt =
+  "You are a helpful AI assistant that's participating in a conversation in a Jupyter notebook.\n\n" +
+  "You can see any Markdown and {language} cells from the conversation so far, indicated by #markdown and #{id}. " +
+  "If the user executed a {language} cell, each cell output will follow it, indicated by #output.\n\n" +
+  "You can reply using Markdown. {language} code blocks should contain real {language} code that will run without errors. " +
+  "They will be converted into {language} cells and executed when the user chooses.";
+
+export const defaultLanguages: readonly Language[] = [
+  {
+    id: "python",
+    name: "Python",
+    aliases: ["py", "python3"],
+    systemPrompt: basePrompt +
+      "\n\nTo display an image, write Python code that evaluates to an image object. The image will appear as a cell output.",
+  },
+  {
+    id: "typescript",
+    name: "TypeScript",
+    aliases: ["ts", "tsx"],
+    systemPrompt: basePrompt,
+  },
+  { id: "julia", name: "Julia", aliases: ["jl"], systemPrompt: basePrompt },
+  { id: "r", name: "R", systemPrompt: basePrompt },
+  { id: "rust", name: "Rust", aliases: ["rs"], systemPrompt: basePrompt },
+  { id: "go", name: "Go", aliases: ["golang"], systemPrompt: basePrompt },
+  {
+    id: "shellscript",
+    name: "Bash",
+    aliases: ["bash", "sh"],
+    systemPrompt: basePrompt,
+  },
+];
+
+/**
+ * The languages that Bot Typist knows about.
+ *
+ * Determines which header lines and code blocks in the bot's reply become code cells,
+ * and which cells are used to guess a notebook's language.
+ */
+export class LanguageRegistry {
+  readonly #languages: Language[];
+
+  /** Maps each id and alias to its language. */
+  readonly #byName = new Map<string, Language>();
+
+  /**
+   * Creates a registry with the given languages.
+   * A language with the same id as an earlier one overrides the fields it sets.
+   */
+  constructor(languages: readonly Language[]) {
+    const byId = new Map<string, Language>();
+    for (const lang of languages) {
+      byId.set(lang.id, { ...byId.get(lang.id), ...lang });
+    }
+    this.#languages = [...byId.values()];
+
+    for (const lang of this.#languages) {
+      for (const alias of lang.aliases ?? []) {
+        this.#byName.set(alias.toLowerCase(), lang);
+      }
+    }
+    for (const lang of this.#languages) {
+      this.#byName.set(lang.id.toLowerCase(), lang);
+    }
+  }
+
+  /** The ids of all languages, in the order they were added. */
+  get ids(): string[] {
+    return this.#languages.map((lang) => lang.id);
+  }
+
+  /** The names that can start a code block in any language, including aliases. */
+  get fenceNames(): string[] {
+    return [...this.#byName.keys()];
+  }
+
+  /** Finds a language by its id or one of its aliases, ignoring case. */
+  lookup(name: string): Language | undefined {
+    return this.#byName.get(name.toLowerCase());
+  }
+
+  /**
+   * Returns the default system prompt for a language, with its name filled in,
+   * or undefined if it doesn't have one.
+   */
+  systemPrompt(id: string): string | undefined {
+    const lang = this.lookup(id);
+    if (!lang?.systemPrompt) {
+      return undefined;
+    }
+    return lang.systemPrompt.replace(/\{(language|id)\}/g, (_, key) =>
+      key === "id" ? lang.id : lang.name ?? lang.id);
+  }
+}
+
+export const defaultLanguageRegistry = new LanguageRegistry(defaultLanguages);
@@ -1,6 +1,7 @@
 import { ChildExitError, ChildPipe } from "./processes";
 import { readAll, ReadHandler } from "./streams";
 import { CANCELLED } from "./botresponse";
+import { Attachment } from "./attachments";
 
 export type Config = {
   path: string;
@@ -8,6 +9,9 @@ export type Config = {
   model: string;
   stop: string;
   extraArgs: string[];
+
+  /** If set, overrides the model's default temperature. */
+  temperature?: number;
 };
 
 export interface OutputChannel {
@@ -70,10 +74,62 @@ export class Service {
     }
   }
 
+  /**
+   * Looks up the id of the response to a prompt in llm's log.
+   *
+   * Another llm command may have finished in the meantime, so the log entry
+   * must have the same prompt and be written after the reply started.
+   *
+   * @returns the id, or the empty string if it's not found, such as when
+   * logging is turned off.
+   */
+  async lastResponseId(prompt: string, started: Date): Promise<string> {
+    const path = this.#config.path;
+    if (!path) {
+      return "";
+    }
+
+    let child: ChildPipe<string> | undefined;
+    try {
+      const args = ["logs", "list", "-n", String(logEntriesToSearch), "--json"];
+      child = new ChildPipe(path, args, readAll);
+    } catch (e) {
+      console.log(`llm error: ${e}`);
+      return "";
+    }
+
+    const TIMEOUT = Symbol("timeout");
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(TIMEOUT), 2000);
+    });
+
+    try {
+      const output = await Promise.race([child.close(), timeout]) as string;
+      return findResponseId(JSON.parse(output), prompt, started);
+    } catch (e) {
+      if (e === TIMEOUT) {
+        child.kill();
+      }
+      console.log(`llm logs error: ${String(e)}`);
+      return "";
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
   /**
    * Runs the llm command with the given prompt, sending the bot's response to a handler.
+   *
+   * @param attachments files to send along with the prompt, such as images.
+   * @param signal when aborted, the llm command is killed.
    */
-  async run<T>(prompt: string, handler: ReadHandler<T>): Promise<T> {
+  async run<T>(
+    prompt: string,
+    handler: ReadHandler<T>,
+    attachments: Attachment[] = [],
+    signal?: AbortSignal,
+  ): Promise<T> {
     const config = this.#config;
 
     const out = this.#output();
@@ -82,16 +138,32 @@ export class Service {
       throw new Error("can't run llm command because its path isn't set");
     }
 
-    logCommand(config, out);
+    logCommand(config, attachments, out);
 
     const systemFlag = config.systemPrompt
       ? ["--system", config.systemPrompt]
       : [];
     const modelFlag = config.model ? ["--model", config.model] : [];
     const stopFlag = config.stop ? ["-o", "stop", config.stop] : [];
-    const args = systemFlag.concat(modelFlag, stopFlag, config.extraArgs);
+    const temperatureFlag = config.temperature !== undefined
+      ? ["-o", "temperature", String(config.temperature)]
+      : [];
+    const attachmentFlags = attachments.flatMap((a) => [
+      "--attachment-type",
+      a.path,
+      a.mime,
+    ]);
+    const args = systemFlag.concat(
+      modelFlag,
+      stopFlag,
+      temperatureFlag,
+      attachmentFlags,
+      config.extraArgs,
+    );
 
     const stdin = new ChildPipe(config.path, args, handler);
+    const kill = () => stdin.kill();
+    signal?.addEventListener("abort", kill, { once: true });
     await stdin.write(prompt);
     try {
       return await stdin.close();
@@ -106,11 +178,53 @@ export class Service {
         out.show();
       }
       throw e;
+    } finally {
+      signal?.removeEventListener("abort", kill);
     }
   }
 }
 
-function logCommand(config: Config, out: OutputChannel) {
+/** How many of the latest log entries to check for the response. */
+const logEntriesToSearch = 5;
+
+/**
+ * Finds the response to a prompt in the output of `llm logs list --json`,
+ * which lists the latest entry first.
+ *
+ * @returns the id of the latest entry with the same prompt that was logged
+ * at or after the start time, or the empty string if there isn't one.
+ */
+export function findResponseId(
+  entries: unknown,
+  prompt: string,
+  started: Date,
+): string {
+  if (!Array.isArray(entries)) {
+    return "";
+  }
+  for (const entry of entries) {
+    if (
+      typeof entry?.id === "string" && entry.prompt === prompt &&
+      typeof entry.datetime_utc === "string" &&
+      parseUtc(entry.datetime_utc) >= started.getTime()
+    ) {
+      return entry.id;
+    }
+  }
+  return "";
+}
+
+/** Parses a time from llm's log, which is in UTC but may not say so. */
+function parseUtc(time: string): number {
+  const hasZone = /(Z|[+-]\d\d:?\d\d)$/i.test(time);
+  return Date.parse(hasZone ? time : time + "Z");
+}
+
+function logCommand(
+  config: Config,
+  attachments: Attachment[],
+  out: OutputChannel,
+) {
   let line = config.path;
   if (config.systemPrompt) {
     out.appendLine("systemPrompt=```");
@@ -124,6 +238,12 @@ function logCommand(config: Config, out: OutputChannel) {
   if (config.stop) {
     line += ` -o stop ${quote(config.stop)}`;
   }
+  if (config.temperature !== undefined) {
+    line += ` -o temperature ${config.temperature}`;
+  }
+  for (const a of attachments) {
+    line += ` --attachment-type ${quote(a.path)} ${a.mime}`;
+  }
   if (config.extraArgs.length > 0) {
     line += " " + config.extraArgs.join(" ");
   }
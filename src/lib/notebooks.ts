@@ -1,7 +1,33 @@
 import * as vscode from "vscode";
 
-import { Cell, CellOutput, chooseBotPrompt } from "./botrequest";
-import { allLanguages, CellWriter } from "./botresponse";
+import {
+  BotPrompt,
+  buildBotPrompt,
+  Cell,
+  CellOutput,
+  estimateTokens,
+} from "./botrequest";
+import { CellWriter } from "./botresponse";
+import {
+  BotCellMetadata,
+  editBotMetadata,
+  getAlternatives,
+  getBotMetadata,
+  getCellTags,
+  getProvenance,
+  newCellMetadata,
+  updateBotMetadata,
+} from "./cellmetadata";
+import { Provenance } from "./provenance";
+import {
+  addAlternative,
+  SavedCell,
+  selectAlternative,
+} from "./alternatives";
+import { ReplyRange } from "./replies";
+import { Config } from "./config";
+import { defaultConverters } from "./richoutput";
+import { LanguageRegistry } from "./languages";
 import { typeText, waitForEditor } from "./editors";
 
 export function getActiveCell(): vscode.NotebookCell | undefined {
@@ -16,18 +42,21 @@ export function getActiveCell(): vscode.NotebookCell | undefined {
   return ed.notebook.cellAt(sel.start);
 }
 
-export function getNotebookLanguage(cell: vscode.NotebookCell): string {
+export function getNotebookLanguage(
+  cell: vscode.NotebookCell,
+  languages: LanguageRegistry,
+): string {
   const notebook = cell.notebook;
   const lang = notebook.metadata?.language_info?.name;
   if (lang) {
-    return lang;
+    // Kernels don't always use the same name as VS Code, such as "bash".
+    return languages.lookup(lang)?.id ?? lang;
   }
 
-  const langs: string[] = [...allLanguages];
   for (let i = cell.index; i >= 0; i--) {
     const lang = notebook.cellAt(i).document.languageId;
-    if (langs.includes(lang)) {
-      return lang;
+    if (languages.lookup(lang)) {
+      return languages.lookup(lang)!.id;
     }
   }
 
@@ -35,50 +64,124 @@ export function getNotebookLanguage(cell: vscode.NotebookCell): string {
   return "";
 }
 
-export function choosePrompt(cell: vscode.NotebookCell): string {
+/**
+ * Chooses the prompt to send for the given cell.
+ *
+ * The system prompt counts against the token budget, so the user prompt
+ * gets whatever is left over.
+ *
+ * @param continueLast true if the cell is a reply that the bot should continue.
+ */
+export function choosePrompt(
+  cell: vscode.NotebookCell,
+  config: Config,
+  continueLast = false,
+): BotPrompt {
   const notebook = cell.notebook;
   const cellAt = (index: number) => convertCell(notebook.cellAt(index));
-  return chooseBotPrompt(cellAt, cell.index);
+
+  const systemTokens = estimateTokens(config.systemPrompt);
+  const tokenBudget = config.tokenBudget > 0
+    ? Math.max(config.tokenBudget - systemTokens, 1)
+    : 0;
+
+  const prompt = buildBotPrompt(cellAt, cell.index, {
+    tokenBudget,
+    maxOutputLines: config.maxOutputLines,
+    maxOutputChars: config.maxOutputChars,
+    maxImages: config.maxImages,
+    maxImageBytes: config.maxImageBytes,
+    tracebackStyle: config.tracebackStyle,
+    chatStart: config.chatStart,
+    format: config.format,
+    cue: config.cue,
+    continueLast,
+  });
+  return { ...prompt, tokens: prompt.tokens + systemTokens };
 }
 
 export function convertCell(cell: vscode.NotebookCell): Cell {
   const doc = cell.document;
+  const meta = getBotMetadata(cell);
   return {
     languageId: doc.languageId,
     text: doc.getText(),
-    outputs: cell.outputs.map(convertOutput),
+    outputs: cell.outputs.flatMap(convertOutput),
+    hidden: meta.hidden,
+    pinned: meta.pinned,
+    tags: getCellTags(cell),
+    fromBot: meta.fromBot,
   };
 }
 
-const textMimeTypes = ["text/plain", "application/vnd.code.notebook.stdout"];
+const stdoutMimeType = "application/vnd.code.notebook.stdout";
+const stderrMimeType = "application/vnd.code.notebook.stderr";
+const errorMimeType = "application/vnd.code.notebook.error";
 
-function convertOutput(output: vscode.NotebookCellOutput): CellOutput {
+/**
+ * Converts a cell output to one or more entries in the prompt.
+ *
+ * Stream and error items each get their own entry, since a kernel may combine
+ * several of them into the same output. Any other items are alternate
+ * representations of the same value, so at most one of them is used.
+ */
+function convertOutput(output: vscode.NotebookCellOutput): CellOutput[] {
   const decoder = new TextDecoder();
-  for (const mimeType of textMimeTypes) {
-    const item = output.items.find((item) => item.mime === mimeType);
-    if (item) {
-      return ["text", decoder.decode(item.data)];
+
+  const result: CellOutput[] = [];
+  const alternatives: vscode.NotebookCellOutputItem[] = [];
+  for (const item of output.items) {
+    switch (item.mime) {
+      case stdoutMimeType:
+        result.push(["text", decoder.decode(item.data)]);
+        break;
+      case stderrMimeType:
+        result.push(["stderr", decoder.decode(item.data)]);
+        break;
+      case errorMimeType:
+        const json = JSON.parse(decoder.decode(item.data));
+        result.push(["error", {
+          name: json.name,
+          message: json.message,
+          stack: json.stack,
+        }]);
+        break;
+      default:
+        alternatives.push(item);
     }
   }
 
-  const error = output.items.find((item) =>
-    item.mime === "application/vnd.code.notebook.error"
-  );
-  if (error) {
-    const json = JSON.parse(decoder.decode(error.data));
-    return ["error", {
-      name: json.name,
-      message: json.message,
-      stack: json.stack,
-    }];
+  if (alternatives.length > 0) {
+    result.push(convertAlternatives(alternatives));
   }
 
-  const first = output.items.at(0);
-  if (first) {
-    return ["text", `[${output.items[0].mime}] (not shown)`];
+  if (result.length === 0) {
+    return [["text", "(empty output)"]];
   }
+  return result;
+}
+
+/** Image formats that can be attached, in order of preference. */
+const imageMimeTypes = ["image/png", "image/jpeg", "image/svg+xml"];
+
+function convertAlternatives(
+  items: vscode.NotebookCellOutputItem[],
+): CellOutput {
+  const decoder = new TextDecoder();
+  const decoded = items.filter((item) => !item.mime.startsWith("image/"))
+    .map((item) => ({ mime: item.mime, data: decoder.decode(item.data) }));
+
+  const text = defaultConverters.convert(decoded) ??
+    `[${items[0].mime}] (not shown)`;
 
-  return ["text", "(empty output)"];
+  for (const mime of imageMimeTypes) {
+    const image = items.find((item) => item.mime === mime);
+    if (image) {
+      return ["image", { mime, data: image.data, altText: text }];
+    }
+  }
+
+  return ["text", text];
 }
 
 export async function editCell(
@@ -109,7 +212,7 @@ export async function editCell(
 /**
  * A writer that inserts cells below the given cell in a notebook.
  */
-export class NotebookWriter implements CellWriter {
+export class NotebookWriter implements ReplyWriter {
   #cell: vscode.NotebookCell;
 
   #decorationType = vscode.window.createTextEditorDecorationType({
@@ -132,8 +235,15 @@ export class NotebookWriter implements CellWriter {
   /** True if at least one new cell was inserted. */
   #insertedCell = false;
 
-  constructor(startCell: vscode.NotebookCell) {
+  /** The cells that the bot wrote. */
+  readonly #botCells: BotCells;
+
+  /**
+   * @param stamp saved in the metadata of each cell that the bot writes.
+   */
+  constructor(startCell: vscode.NotebookCell, stamp: ReplyStamp = {}) {
     this.#cell = startCell;
+    this.#botCells = new BotCells(stamp);
 
     this.#disposables.push({
       dispose: () => {
@@ -156,6 +266,16 @@ export class NotebookWriter implements CellWriter {
     this.decorate(ed);
   }
 
+  /**
+   * Appends to the start cell, which the bot wrote earlier, instead of
+   * inserting a new cell before the first write.
+   */
+  continueCell(): void {
+    this.#insertedCell = true;
+    this.#botCells.continueCell(this.#cell);
+    this.#cellSize = this.#cell.document.getText().length;
+  }
+
   private cancel(msg: string) {
     console.log(`notebook editing cancelled: ${msg}`);
     this.#cancelled = true;
@@ -193,9 +313,16 @@ export class NotebookWriter implements CellWriter {
 
   #writing = false;
 
-  /** Inserts a new cell after the current one and starts editing it. */
+  /**
+   * Inserts a new cell after the current one and starts editing it.
+   *
+   * @param languageId if set, changes the language of a new code cell.
+   * @param fromBot false for the empty cell that's left for the user at the end.
+   */
   private insertCellBelow = async (
     kind: vscode.NotebookCellKind,
+    languageId?: string,
+    fromBot = true,
   ): Promise<boolean> => {
     if (this.#writing) {
       console.log("NotebookWriter.insertCellBelow: already writing");
@@ -237,6 +364,17 @@ export class NotebookWriter implements CellWriter {
         return false;
       }
 
+      if (languageId) {
+        await vscode.languages.setTextDocumentLanguage(
+          cell.document,
+          languageId,
+        );
+      }
+
+      if (fromBot) {
+        await this.#botCells.add(cell);
+      }
+
       const ed = await editCell(cell);
       if (!ed) {
         console.log("couldn't edit new cell");
@@ -263,14 +401,19 @@ export class NotebookWriter implements CellWriter {
     this.#decoratedEd = ed;
   }
 
-  startCodeCell(): Promise<boolean> {
-    return this.insertCellBelow(vscode.NotebookCellKind.Code);
+  startCodeCell(languageId?: string): Promise<boolean> {
+    return this.insertCellBelow(vscode.NotebookCellKind.Code, languageId);
   }
 
   startMarkdownCell(): Promise<boolean> {
     return this.insertCellBelow(vscode.NotebookCellKind.Markup);
   }
 
+  startRawCell(): Promise<boolean> {
+    // The Jupyter extension represents raw cells as code cells in the "raw" language.
+    return this.insertCellBelow(vscode.NotebookCellKind.Code, "raw");
+  }
+
   async write(data: string): Promise<boolean> {
     if (this.#writing) {
       console.log("NotebookWriter.write: already writing");
@@ -324,8 +467,359 @@ export class NotebookWriter implements CellWriter {
     if (this.#disposables.length === 0) {
       return true;
     }
-    await this.startMarkdownCell();
+    await this.insertCellBelow(
+      vscode.NotebookCellKind.Markup,
+      undefined,
+      false,
+    );
     this.cleanup();
     return true;
   }
+
+  setResponseId(responseId: string): Promise<boolean> {
+    return this.#botCells.setResponseId(responseId);
+  }
+}
+
+/** What's saved in the metadata of each cell that the bot writes, besides `fromBot`. */
+export type ReplyStamp = Pick<BotCellMetadata, "provenance" | "reply">;
+
+/** A writer for a bot's reply that can also record its response id. */
+export interface ReplyWriter extends CellWriter {
+  /** Appends to the start cell instead of inserting a new cell before the first write. */
+  continueCell(): void;
+
+  setResponseId(responseId: string): Promise<boolean>;
+}
+
+/** Saves the provenance in the metadata of each cell that still exists. */
+async function stampProvenance(
+  cells: vscode.NotebookCell[],
+  provenance: Provenance,
+): Promise<boolean> {
+  const remaining = cells.filter((cell) => cell.index >= 0);
+  if (remaining.length === 0) {
+    return true;
+  }
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(
+    remaining[0].notebook.uri,
+    remaining.map((cell) => editBotMetadata(cell, { provenance })),
+  );
+  return await vscode.workspace.applyEdit(edit);
+}
+
+/** The cells that the bot wrote in one reply, in order. */
+class BotCells {
+  /** Saved in the metadata of each cell that the bot writes. */
+  #stamp: ReplyStamp;
+
+  readonly #cells: vscode.NotebookCell[] = [];
+
+  constructor(stamp: ReplyStamp) {
+    this.#stamp = stamp;
+  }
+
+  get last(): vscode.NotebookCell | undefined {
+    return this.#cells.at(-1);
+  }
+
+  /** Adds a cell that the bot wrote earlier, when continuing it. */
+  continueCell(cell: vscode.NotebookCell): void {
+    this.#cells.push(cell);
+  }
+
+  /** Marks a new cell as the bot's, so it's sent back as the bot's turn. */
+  async add(cell: vscode.NotebookCell): Promise<void> {
+    const meta: BotCellMetadata = { ...this.#stamp, fromBot: true };
+    if (!await updateBotMetadata(cell, meta)) {
+      console.log("couldn't mark new cell as from the bot");
+    }
+    this.#cells.push(cell);
+  }
+
+  /**
+   * Adds the response id to the provenance of each cell, once the backend
+   * reports it.
+   */
+  async setResponseId(responseId: string): Promise<boolean> {
+    const provenance = this.#stamp.provenance;
+    if (!provenance || !responseId) {
+      return false;
+    }
+    this.#stamp = { ...this.#stamp, provenance: { ...provenance, responseId } };
+    return await stampProvenance(this.#cells, this.#stamp.provenance!);
+  }
+}
+
+/**
+ * A writer that inserts cells below the given cell by editing the notebook
+ * document directly, instead of typing.
+ *
+ * It doesn't move the cursor or change the selection, so the user can keep
+ * working elsewhere while the reply streams in. Writing stops only if the
+ * notebook is closed, a cell it's writing is deleted, or the reply is
+ * stopped.
+ */
+export class BackgroundNotebookWriter implements ReplyWriter {
+  readonly #notebook: vscode.NotebookDocument;
+
+  /** The cell being written, or the start cell if none was inserted yet. */
+  #cell: vscode.NotebookCell;
+
+  readonly #codeLanguage: string;
+
+  /** The cells that the bot wrote. */
+  readonly #botCells: BotCells;
+
+  /** Aborted when the user stops the reply. */
+  readonly #signal: AbortSignal | undefined;
+
+  #cancelled = false;
+
+  /**
+   * @param codeLanguage the language for new code cells. If not known, they're in Python,
+   * like a new Jupyter notebook.
+   * @param stamp saved in the metadata of each cell that the bot writes.
+   * @param signal if aborted, writing stops.
+   */
+  constructor(
+    startCell: vscode.NotebookCell,
+    codeLanguage: string,
+    stamp: ReplyStamp = {},
+    signal?: AbortSignal,
+  ) {
+    this.#notebook = startCell.notebook;
+    this.#cell = startCell;
+    this.#codeLanguage = codeLanguage || "python";
+    this.#botCells = new BotCells(stamp);
+    this.#signal = signal;
+  }
+
+  continueCell(): void {
+    this.#botCells.continueCell(this.#cell);
+  }
+
+  /** Returns true if writing can continue. */
+  private get writable(): boolean {
+    if (this.#cancelled || this.#signal?.aborted) {
+      return false;
+    } else if (this.#notebook.isClosed || this.#cell.index < 0) {
+      console.log("background notebook writer: cell is gone");
+      this.#cancelled = true;
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Inserts a new cell after the current one.
+   *
+   * @param fromBot false for the empty cell that's left for the user at the end.
+   */
+  private async insertCellBelow(
+    kind: vscode.NotebookCellKind,
+    languageId: string,
+    fromBot = true,
+  ): Promise<boolean> {
+    if (!this.writable || !await this.removeTrailingNewline()) {
+      return false;
+    }
+
+    const index = this.#cell.index + 1;
+    const data = new vscode.NotebookCellData(kind, "", languageId);
+    const edit = new vscode.WorkspaceEdit();
+    edit.set(this.#notebook.uri, [
+      vscode.NotebookEdit.insertCells(index, [data]),
+    ]);
+    if (!await vscode.workspace.applyEdit(edit)) {
+      console.log("couldn't insert cell");
+      return false;
+    }
+    const cell = this.#notebook.cellAt(index);
+
+    if (fromBot) {
+      await this.#botCells.add(cell);
+    }
+
+    this.#cell = cell;
+    return true;
+  }
+
+  /** Removes a trailing newline from the cell being written, if it's one the bot wrote. */
+  private async removeTrailingNewline(): Promise<boolean> {
+    if (this.#botCells.last !== this.#cell) {
+      return true;
+    }
+    const doc = this.#cell.document;
+    if (doc.lineCount < 2) {
+      return true;
+    }
+    const last = doc.lineAt(doc.lineCount - 1);
+    if (!last.isEmptyOrWhitespace) {
+      return true;
+    }
+    const prev = doc.lineAt(doc.lineCount - 2);
+    const edit = new vscode.WorkspaceEdit();
+    edit.delete(
+      doc.uri,
+      new vscode.Range(prev.range.end, last.rangeIncludingLineBreak.end),
+    );
+    return await vscode.workspace.applyEdit(edit);
+  }
+
+  startCodeCell(languageId?: string): Promise<boolean> {
+    return this.insertCellBelow(
+      vscode.NotebookCellKind.Code,
+      languageId ?? this.#codeLanguage,
+    );
+  }
+
+  startMarkdownCell(): Promise<boolean> {
+    return this.insertCellBelow(vscode.NotebookCellKind.Markup, "markdown");
+  }
+
+  startRawCell(): Promise<boolean> {
+    // The Jupyter extension represents raw cells as code cells in the "raw" language.
+    return this.insertCellBelow(vscode.NotebookCellKind.Code, "raw");
+  }
+
+  async write(data: string): Promise<boolean> {
+    if (!this.#botCells.last && !await this.startMarkdownCell()) {
+      return false;
+    }
+    if (!this.writable) {
+      return false;
+    }
+
+    const doc = this.#cell.document;
+    const end = doc.lineAt(doc.lineCount - 1).range.end;
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(doc.uri, end, data);
+    if (!await vscode.workspace.applyEdit(edit)) {
+      console.log("background notebook writer: edit failed");
+      this.#cancelled = true;
+      return false;
+    }
+    return true;
+  }
+
+  async close(): Promise<boolean> {
+    if (!this.writable) {
+      return false;
+    }
+    return await this.insertCellBelow(
+      vscode.NotebookCellKind.Markup,
+      "markdown",
+      false,
+    );
+  }
+
+  setResponseId(responseId: string): Promise<boolean> {
+    return this.#botCells.setResponseId(responseId);
+  }
+}
+
+/** Saves the cells of a reply, so they can be put back later. Outputs aren't kept. */
+function saveCells(cells: vscode.NotebookCell[]): SavedCell[] {
+  return cells.map((cell) => {
+    const saved: SavedCell = {
+      kind: cell.kind === vscode.NotebookCellKind.Markup ? "markdown" : "code",
+      languageId: cell.document.languageId,
+      text: cell.document.getText(),
+    };
+    const provenance = getProvenance(cell);
+    if (provenance) {
+      saved.provenance = provenance;
+    }
+    const reply = getBotMetadata(cell).reply;
+    if (typeof reply === "string") {
+      saved.reply = reply;
+    }
+    return saved;
+  });
+}
+
+function restoreCells(
+  saved: SavedCell[],
+  like: vscode.NotebookCell,
+): vscode.NotebookCellData[] {
+  return saved.map((c) => {
+    const kind = c.kind === "markdown"
+      ? vscode.NotebookCellKind.Markup
+      : vscode.NotebookCellKind.Code;
+    const data = new vscode.NotebookCellData(kind, c.text, c.languageId);
+    const meta: BotCellMetadata = {
+      fromBot: true,
+      provenance: c.provenance,
+      reply: c.reply,
+    };
+    data.metadata = newCellMetadata(like, meta);
+    return data;
+  });
+}
+
+/**
+ * Creates edits that remove a reply, after saving it as an alternative in the
+ * question's metadata. The next reply to be inserted becomes the selected one.
+ *
+ * @param removeEnd the cell after the last one to remove.
+ */
+export function editsToReplaceReply(
+  notebook: vscode.NotebookDocument,
+  range: ReplyRange,
+  removeEnd: number,
+): vscode.NotebookEdit[] {
+  const question = notebook.cellAt(range.question);
+  const shown = notebook.getCells(
+    new vscode.NotebookRange(range.start, range.end),
+  );
+  const alternatives = addAlternative(
+    getAlternatives(question),
+    saveCells(shown),
+  );
+  return [
+    editBotMetadata(question, { alternatives }),
+    vscode.NotebookEdit.deleteCells(
+      new vscode.NotebookRange(range.start, removeEnd),
+    ),
+  ];
+}
+
+/**
+ * Shows another of the bot's replies to a question, in place of the one
+ * that's shown. Any edits to the shown reply are saved.
+ *
+ * @returns false if there's no reply with that index.
+ */
+export async function showAlternative(
+  notebook: vscode.NotebookDocument,
+  range: ReplyRange,
+  index: number,
+): Promise<boolean> {
+  const question = notebook.cellAt(range.question);
+  const alts = getAlternatives(question);
+  if (!alts) {
+    return false;
+  }
+
+  const cellRange = new vscode.NotebookRange(range.start, range.end);
+  const next = selectAlternative(
+    alts,
+    saveCells(notebook.getCells(cellRange)),
+    index,
+  );
+  if (!next) {
+    return false;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(notebook.uri, [
+    editBotMetadata(question, { alternatives: next }),
+    vscode.NotebookEdit.replaceCells(
+      cellRange,
+      restoreCells(next.replies[index], question),
+    ),
+  ]);
+  return await vscode.workspace.applyEdit(edit);
 }
@@ -0,0 +1,67 @@
+import { createHash } from "crypto";
+
+/**
+ * Records how the bot wrote a cell, so that people reviewing a notebook can
+ * tell generated cells from the ones they wrote.
+ */
+export interface Provenance {
+  /** The model that was asked for, or the empty string for the backend's default. */
+  model: string;
+
+  /** A hash of the system prompt. (See {@link hashText}.) */
+  systemPromptHash: string;
+
+  /** A hash of the prompt that was sent. (See {@link hashText}.) */
+  promptHash: string;
+
+  /** When the reply started, in ISO 8601 format. */
+  time: string;
+
+  /** The id that the backend gave the response, if known. */
+  responseId?: string;
+}
+
+/** Returns the SHA-256 hash of some text, in hex. */
+export function hashText(text: string): string {
+  return createHash("sha256").update(text, "utf8").digest("hex");
+}
+
+export function makeProvenance(
+  model: string,
+  systemPrompt: string,
+  prompt: string,
+  time: Date,
+): Provenance {
+  return {
+    model,
+    systemPromptHash: hashText(systemPrompt),
+    promptHash: hashText(prompt),
+    time: time.toISOString(),
+  };
+}
+
+/** Returns true if the metadata has the fields of a {@link Provenance}. */
+export function isProvenance(data: unknown): data is Provenance {
+  if (typeof data !== "object" || data === null) {
+    return false;
+  }
+  const p = data as { [key: string]: unknown };
+  return typeof p.model === "string" &&
+    typeof p.systemPromptHash === "string" &&
+    typeof p.promptHash === "string" && typeof p.time === "string" &&
+    (p.responseId === undefined || typeof p.responseId === "string");
+}
+
+/** Describes where a cell came from, one field per line. */
+export function describeProvenance(p: Provenance): string {
+  const lines = [
+    `Written by the bot using ${p.model ? p.model : "the default model"}`,
+    `Time: ${p.time}`,
+    `System prompt hash: ${p.systemPromptHash.slice(0, 12)}`,
+    `Prompt hash: ${p.promptHash.slice(0, 12)}`,
+  ];
+  if (p.responseId) {
+    lines.push(`Response id: ${p.responseId}`);
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,97 @@
+import { Cell, chooseRole, Role } from "./botrequest";
+
+/** Where a bot's reply is in a notebook, by cell index. */
+export interface ReplyRange {
+  /** The cell that the bot replied to. */
+  question: number;
+
+  /** The reply's first cell. */
+  start: number;
+
+  /** The cell after the reply's last cell. */
+  end: number;
+
+  /** True if the reply is followed by an empty Markdown cell, left for the user. */
+  trailingBlank: boolean;
+}
+
+/**
+ * Finds the bot's reply to a question.
+ *
+ * The given cell can be the question, any cell of the reply, or the empty
+ * cell that was left after it. A reply is a run of cells written by the bot,
+ * according to their metadata or, for older cells, the cue.
+ *
+ * @returns the range, or undefined if there's no reply or no question before it.
+ */
+export function findReply(
+  cells: Cell[],
+  index: number,
+  cue?: string,
+): ReplyRange | undefined {
+  const roles: Role[] = [];
+  for (const cell of cells) {
+    roles.push(chooseRole(cell, cell.text, roles.at(-1) ?? "user", cue));
+  }
+  const fromBot = (i: number) => i >= 0 && i < cells.length &&
+    roles[i] === "assistant";
+  const isBlank = (i: number) =>
+    i < cells.length && roles[i] === "user" &&
+    cells[i].languageId === "markdown" && cells[i].text.trim() === "";
+
+  let start: number;
+  if (fromBot(index) || (isBlank(index) && fromBot(index - 1))) {
+    start = fromBot(index) ? index : index - 1;
+    while (fromBot(start - 1)) {
+      start--;
+    }
+  } else if (fromBot(index + 1)) {
+    start = index + 1;
+  } else {
+    return undefined;
+  }
+
+  const question = start - 1;
+  if (question < 0) {
+    return undefined;
+  }
+
+  let end = start;
+  while (fromBot(end)) {
+    end++;
+  }
+  return { question, start, end, trailingBlank: isBlank(end) };
+}
+
+/**
+ * Finds the cells that the bot wrote in one reply, using the reply ids saved
+ * in their metadata. Unlike {@link findReply}, it doesn't include cells from
+ * another reply right after it.
+ *
+ * @param replyIds each cell's reply id, or undefined if it's not from a reply.
+ * @param index a cell in the reply. If it isn't in one, the reply just above
+ * is used, such as when it's the empty cell that was left for the user.
+ * @returns the cells' range, where end is the cell after the last one.
+ */
+export function findReplyCells(
+  replyIds: (string | undefined)[],
+  index: number,
+): { start: number; end: number } | undefined {
+  if (replyIds[index] === undefined) {
+    index--;
+  }
+  const id = replyIds[index];
+  if (index < 0 || id === undefined) {
+    return undefined;
+  }
+
+  let start = index;
+  while (start > 0 && replyIds[start - 1] === id) {
+    start--;
+  }
+  let end = index + 1;
+  while (end < replyIds.length && replyIds[end] === id) {
+    end++;
+  }
+  return { start, end };
+}
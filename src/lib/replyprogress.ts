@@ -0,0 +1,130 @@
+import * as vscode from "vscode";
+
+import { abortable, Reader, ReadResult } from "./streams";
+import { CANCELLED } from "./botresponse";
+
+/** True while the bot is replying. Used by the Escape key binding. */
+const contextKey = "bot-typist.replyInProgress";
+
+/**
+ * A reply that's in progress, or something else that can be stopped, like
+ * a loop of replies. Shows the model, elapsed time, and characters received
+ * in the status bar.
+ */
+export class ReplyProgress implements vscode.Disposable {
+  readonly #controller = new AbortController();
+  readonly #item: vscode.StatusBarItem;
+  #label: string;
+  readonly #started = Date.now();
+  readonly #timer: NodeJS.Timeout;
+  readonly #onDispose: () => void;
+
+  /** The number of characters received, or undefined if not reading a reply. */
+  #chars: number | undefined;
+
+  /** @param label usually the model's name. */
+  constructor(label: string, onDispose: () => void) {
+    this.#label = label;
+    this.#onDispose = onDispose;
+
+    this.#item = vscode.window.createStatusBarItem(
+      vscode.StatusBarAlignment.Left,
+    );
+    this.#item.tooltip = "Click to stop the bot.";
+    this.#item.command = {
+      title: "Stop Bot Reply",
+      command: "bot-typist.stop-reply",
+      arguments: [this],
+    };
+    this.#timer = setInterval(() => this.update(), 1000);
+    this.update();
+    this.#item.show();
+  }
+
+  /** Aborted when the user stops the reply. */
+  get signal(): AbortSignal {
+    return this.#controller.signal;
+  }
+
+  get stopped(): boolean {
+    return this.#controller.signal.aborted;
+  }
+
+  stop(): void {
+    this.#controller.abort();
+  }
+
+  set label(label: string) {
+    this.#label = label;
+    this.update();
+  }
+
+  /**
+   * Wraps the bot's reply so that its characters are counted, and reading it
+   * throws CANCELLED once the reply is stopped.
+   */
+  track(input: Reader): Reader {
+    const reader = abortable(input, this.signal, CANCELLED);
+    this.#chars = 0;
+    return {
+      read: async (): Promise<ReadResult> => {
+        const chunk = await reader.read();
+        if (typeof chunk === "string") {
+          this.#chars = (this.#chars ?? 0) + chunk.length;
+        }
+        return chunk;
+      },
+    };
+  }
+
+  private update() {
+    const seconds = Math.floor((Date.now() - this.#started) / 1000);
+    const label = this.#label || "bot";
+    const chars = this.#chars === undefined ? "" : `, ${this.#chars} chars`;
+    this.#item.text =
+      `$(loading~spin) ${label} ${seconds}s${chars} $(debug-stop)`;
+  }
+
+  dispose() {
+    clearInterval(this.#timer);
+    this.#item.dispose();
+    this.#onDispose();
+  }
+}
+
+/** Keeps track of the replies in progress, so they can be stopped. */
+export class RepliesInProgress {
+  readonly #replies = new Set<ReplyProgress>();
+
+  /** Starts tracking a reply. Dispose it when the reply is finished. */
+  start(label: string): ReplyProgress {
+    const reply = new ReplyProgress(label, () => {
+      this.#replies.delete(reply);
+      this.updateContext();
+    });
+    this.#replies.add(reply);
+    this.updateContext();
+    return reply;
+  }
+
+  /**
+   * Stops a reply, or all of them if none is given.
+   * @returns false if there was nothing to stop.
+   */
+  stop(reply?: ReplyProgress): boolean {
+    const targets = reply ? [reply] : [...this.#replies];
+    const running = targets.filter((r) => this.#replies.has(r) && !r.stopped);
+    for (const r of running) {
+      r.stop();
+    }
+    return running.length > 0;
+  }
+
+  private updateContext() {
+    vscode.commands.executeCommand(
+      "setContext",
+      contextKey,
+      this.#replies.size > 0,
+    );
+  }
+}
@@ -0,0 +1,192 @@
+/** An item in a cell output, with its data decoded as text. */
+export interface OutputItem {
+  mime: string;
+  data: string;
+}
+
+/**
+ * Converts the data for one MIME type to text that can be sent to the bot.
+ * Returns undefined to leave it to a later converter.
+ */
+export type OutputConverter = (data: string) => string | undefined;
+
+/**
+ * A pipeline that converts rich cell outputs to text.
+ *
+ * A cell output may include the same value in several formats. The pipeline
+ * tries the converters in the order that they were registered, and uses the
+ * first one that converts an item. A MIME type may be registered more than
+ * once, such as to prefer HTML only when it contains a table.
+ */
+export class OutputConverters {
+  readonly #converters: [string, OutputConverter][] = [];
+  readonly #maxInputSize: number;
+
+  /**
+   * @param maxInputSize items with more characters than this won't be converted.
+   */
+  constructor(maxInputSize = 1_000_000) {
+    this.#maxInputSize = maxInputSize;
+  }
+
+  /** Adds a converter for a MIME type. It has lower priority than any converter already added. */
+  register(mimeType: string, converter: OutputConverter): OutputConverters {
+    this.#converters.push([mimeType, converter]);
+    return this;
+  }
+
+  /**
+   * Converts the best available item to text.
+   *
+   * An item that's too large is skipped. If nothing else can be converted,
+   * the result says that it was too large.
+   *
+   * @returns the converted text, or undefined if no item could be converted.
+   */
+  convert(items: OutputItem[]): string | undefined {
+    let tooLarge: string | undefined;
+    for (const [mimeType, converter] of this.#converters) {
+      const item = items.find((item) => item.mime === mimeType);
+      if (!item) {
+        continue;
+      }
+      if (item.data.length > this.#maxInputSize) {
+        tooLarge ??= `[${mimeType}] (too large to show)`;
+        continue;
+      }
+      const text = converter(item.data);
+      if (text !== undefined) {
+        return text;
+      }
+    }
+    return tooLarge;
+  }
+}
+
+/** Pretty-prints JSON data, or returns it unchanged if it doesn't parse. */
+export function formatJson(data: string): string {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch (_e) {
+    return data;
+  }
+}
+
+const namedEntities: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (entity, name) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X"
+        ? parseInt(name.slice(2), 16)
+        : parseInt(name.slice(1), 10);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return namedEntities[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Converts HTML within a block (such as a table cell) to one line of text. */
+function inlineText(html: string): string {
+  const text = html.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]*>/g, "");
+  return decodeEntities(text).replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Converts an HTML table to a Markdown table.
+ * The first row is used as the header.
+ */
+export function tableToMarkdown(html: string): string {
+  const rows: string[][] = [];
+  for (const row of html.matchAll(/<tr\b[^>]*>([\s\S]*?)<\/tr>/gi)) {
+    const cells: string[] = [];
+    for (const cell of row[1].matchAll(/<t([hd])\b([^>]*)>([\s\S]*?)<\/t\1>/gi)) {
+      const text = inlineText(cell[3]).replaceAll("|", "\\|");
+      cells.push(text);
+
+      const colspan = /colspan\s*=\s*["']?(\d+)/i.exec(cell[2]);
+      const extra = colspan ? Math.min(parseInt(colspan[1]), 100) - 1 : 0;
+      for (let i = 0; i < extra; i++) {
+        cells.push("");
+      }
+    }
+    rows.push(cells);
+  }
+
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (width === 0) {
+    return "";
+  }
+
+  const formatRow = (row: string[]) => {
+    const padded = row.concat(Array(width - row.length).fill(""));
+    return "| " + padded.join(" | ") + " |";
+  };
+
+  const lines = [
+    formatRow(rows[0]),
+    formatRow(Array(width).fill("---")),
+    ...rows.slice(1).map(formatRow),
+  ];
+  return lines.join("\n");
+}
+
+/**
+ * Converts HTML to readable text.
+ * Tables become Markdown tables. Other markup is removed.
+ */
+export function htmlToText(html: string): string {
+  html = html.replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, "");
+
+  // Tables are converted separately, so that their line breaks are kept.
+  const parts: string[] = [];
+  let start = 0;
+  for (const table of html.matchAll(/<table\b[^>]*>[\s\S]*?<\/table>/gi)) {
+    const end = table.index ?? 0;
+    parts.push(blockText(html.slice(start, end)), tableToMarkdown(table[0]));
+    start = end + table[0].length;
+  }
+  parts.push(blockText(html.slice(start)));
+
+  return parts.filter((part) => part !== "").join("\n\n");
+}
+
+/** Converts HTML that doesn't contain a table to text, keeping line breaks between blocks. */
+function blockText(html: string): string {
+  const text = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/?(p|div|h[1-6]|ul|ol|li|tr|pre|blockquote)\b[^>]*>/gi, "\n")
+    .replace(/<[^>]*>/g, "");
+
+  return decodeEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Converters for common output formats.
+ *
+ * An HTML table, such as a pandas DataFrame, is preferred, since its plain text
+ * version may be cut off or hard to read. Otherwise, Markdown and then plain
+ * text are preferred, since they're what the kernel chose to show.
+ */
+export const defaultConverters = new OutputConverters()
+  .register("text/html", (data) =>
+    /<table\b/i.test(data) ? htmlToText(data) : undefined
+  )
+  .register("text/markdown", (data) => data)
+  .register("text/plain", (data) => data)
+  .register("application/json", formatJson)
+  .register("text/html", htmlToText);
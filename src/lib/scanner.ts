@@ -133,6 +133,32 @@ export class Scanner {
     return chunk;
   }
 
+  /**
+   * Takes some of the input that comes before the next occurrence of a token.
+   *
+   * Pulls more input if needed, but returns as soon as there's some text that
+   * can't be part of the token, so that it can be streamed.
+   *
+   * @returns the empty string if the token is next, or at the end of the input.
+   */
+  async takeChunkBefore(token: string): Promise<string> {
+    while (true) {
+      const index = this.#buffer.indexOf(token);
+      let end = index >= 0 ? index : this.#buffer.length - token.length + 1;
+      if (end > 0 && isHighSurrogate(this.#buffer[end - 1])) {
+        end--; // don't split a surrogate pair
+      }
+
+      if (end > 0 || index === 0) {
+        const chunk = this.#buffer.slice(0, end);
+        this.#buffer = this.#buffer.slice(end);
+        return chunk;
+      } else if (!await this.pull()) {
+        return this.takeBuffer();
+      }
+    }
+  }
+
   async takeMatchingChar(allowedChars: string): Promise<string> {
     if (!await this.fillTo(1) || !allowedChars.includes(this.#buffer[0])) {
       return "";
@@ -153,6 +179,22 @@ export class Scanner {
     }
   }
 
+  /**
+   * Returns the next line without removing it.
+   * Waits until a newline or the end of input is reached.
+   *
+   * @returns the next line, including the newline if there is one.
+   * @returns the empty string at the end of the input.
+   */
+  async peekLine(): Promise<string> {
+    while (!this.#buffer.includes("\n")) {
+      if (!await this.pull()) {
+        return this.#buffer;
+      }
+    }
+    return this.#buffer.slice(0, this.#buffer.indexOf("\n") + 1);
+  }
+
   /**
    * Reads and removes a line, including the terminating newline.
    * Waits until a newline or the end of input is reached.
@@ -141,3 +141,34 @@ export async function copyStream<T>(
     source.destroy();
   }
 }
+
+/**
+ * Wraps a reader so that it stops when a signal is aborted.
+ *
+ * A read that's waiting when the signal is aborted throws the given error,
+ * and so does any read after that.
+ */
+export function abortable(
+  input: Reader,
+  signal: AbortSignal,
+  error: unknown,
+): Reader {
+  const aborted = new Promise<never>((_, reject) => {
+    if (signal.aborted) {
+      reject(error);
+    } else {
+      signal.addEventListener("abort", () => reject(error), { once: true });
+    }
+  });
+  // Avoid an unhandled rejection if nothing is reading when it's aborted.
+  aborted.catch(() => {});
+
+  return {
+    read(): Promise<ReadResult> {
+      if (signal.aborted) {
+        return Promise.reject(error);
+      }
+      return Promise.race([input.read(), aborted]);
+    },
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * How to clean up the stack trace in an error output before sending it to the bot.
+ *
+ * - none: send it unchanged
+ * - plain: remove ANSI escape sequences
+ * - python: also condense IPython and Python tracebacks
+ * - javascript: also condense JavaScript stack traces (such as from Deno)
+ */
+export const allTracebackStyles = [
+  "none",
+  "plain",
+  "python",
+  "javascript",
+] as const;
+
+export type TracebackStyle = typeof allTracebackStyles[number];
+
+const ansiPattern =
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+/** Removes terminal color codes and other ANSI escape sequences. */
+export function stripAnsi(text: string): string {
+  return text.replace(ansiPattern, "");
+}
+
+interface Frame {
+  lines: string[];
+  library: boolean;
+}
+
+type Segment = ["text", string[]] | ["frame", Frame];
+
+interface StackSyntax {
+  /** Returns true if the line starts a new stack frame. */
+  isFrameStart(line: string): boolean;
+
+  /** Returns true if the line continues the current stack frame. */
+  isFrameContinuation(line: string): boolean;
+
+  /** Returns true if the frame's first line points to library code. */
+  isLibraryFrame(firstLine: string): boolean;
+
+  /** True if the innermost frame comes first. */
+  innermostFirst: boolean;
+}
+
+const pythonSyntax: StackSyntax = {
+  isFrameStart: (line) =>
+    /^(Cell In\s*\[|Input In\s*\[|<ipython-input-|File |\s*File ")/.test(line),
+
+  // IPython indents its context lines or starts them with an arrow.
+  isFrameContinuation: (line) => line === "" || /^(\s|-+>)/.test(line),
+
+  isLibraryFrame: (firstLine) =>
+    /site-packages|dist-packages|[\\/]lib[\\/]python\d|[\\/]lib[\\/]Python\d/
+      .test(firstLine),
+
+  innermostFirst: false,
+};
+
+const javascriptSyntax: StackSyntax = {
+  isFrameStart: (line) => /^\s+at /.test(line),
+
+  isFrameContinuation: (_line) => false,
+
+  isLibraryFrame: (firstLine) =>
+    /node_modules|\bext:|\bnode:|\bdeno:|https?:\/\/|\binternal\//.test(
+      firstLine,
+    ),
+
+  innermostFirst: true,
+};
+
+function splitFrames(stack: string, syntax: StackSyntax): Segment[] {
+  const segments: Segment[] = [];
+  let current: Segment | undefined;
+
+  for (const line of stack.split("\n")) {
+    if (syntax.isFrameStart(line)) {
+      const frame = { lines: [line], library: syntax.isLibraryFrame(line) };
+      current = ["frame", frame];
+      segments.push(current);
+    } else if (
+      current && current[0] === "frame" && syntax.isFrameContinuation(line)
+    ) {
+      current[1].lines.push(line);
+    } else if (current && current[0] === "text") {
+      current[1].push(line);
+    } else {
+      current = ["text", [line]];
+      segments.push(current);
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Shortens a stack trace.
+ *
+ * Frames in library code are replaced with a note saying how many were left out,
+ * except for the innermost frame, which often says what went wrong.
+ * A frame that repeats (such as in a runaway recursion) is only shown once.
+ * Frames in the user's own code, the exception type, and the message are kept.
+ */
+export function condenseTraceback(
+  stack: string,
+  style: TracebackStyle,
+): string {
+  if (style === "none") {
+    return stack;
+  }
+
+  stack = stripAnsi(stack);
+  if (style === "plain") {
+    return stack;
+  }
+
+  const syntax = style === "python" ? pythonSyntax : javascriptSyntax;
+  const segments = splitFrames(stack, syntax);
+
+  const frames = segments.flatMap((s) => s[0] === "frame" ? [s[1]] : []);
+  const innermost = syntax.innermostFirst ? frames.at(0) : frames.at(-1);
+
+  // A frame's last line is often blank in IPython tracebacks; keep that for the note.
+  const noteFor = (frame: Frame, note: string) => {
+    const last = frame.lines.at(-1);
+    return last === "" && frame.lines.length > 1 ? [note, ""] : [note];
+  };
+
+  const output: string[] = [];
+  let omitted: Frame[] = [];
+
+  const flushOmitted = () => {
+    if (omitted.length > 0) {
+      const n = omitted.length;
+      const note = `... ${n} library frame${n === 1 ? "" : "s"} omitted ...`;
+      output.push(...noteFor(omitted[0], note));
+      omitted = [];
+    }
+  };
+
+  let previous: Frame | undefined;
+  let repeats = 0;
+
+  const flushRepeats = () => {
+    if (previous && repeats > 0) {
+      const note = `... previous frame repeated ${repeats} more time${
+        repeats === 1 ? "" : "s"
+      } ...`;
+      output.push(...noteFor(previous, note));
+    }
+    repeats = 0;
+  };
+
+  for (const segment of segments) {
+    if (segment[0] === "text") {
+      flushOmitted();
+      flushRepeats();
+      previous = undefined;
+      output.push(...segment[1]);
+      continue;
+    }
+
+    const frame = segment[1];
+    if (previous && frame.lines.join("\n") === previous.lines.join("\n")) {
+      repeats++;
+      continue;
+    }
+    flushRepeats();
+
+    if (frame.library && frame !== innermost) {
+      omitted.push(frame);
+      previous = undefined;
+      continue;
+    }
+
+    flushOmitted();
+    output.push(...frame.lines);
+    previous = frame;
+  }
+  flushOmitted();
+  flushRepeats();
+
+  return output.join("\n");
+}
@@ -0,0 +1,130 @@
+export const allOutputKinds = ["output", "stderr"] as const;
+
+/** The kinds of cell output that appear in a transcript. */
+export type OutputKind = typeof allOutputKinds[number];
+
+/**
+ * Determines how notebook cells are written in a prompt, and how the bot
+ * is expected to write them in its response.
+ */
+export interface TranscriptFormat {
+  readonly name: TranscriptFormatName;
+
+  /** Formats a cell's source text. */
+  formatCell(languageId: string, text: string): string;
+
+  /** Formats one of a cell's outputs. It's written after the cell. */
+  formatOutput(kind: OutputKind, text: string): string;
+
+  /**
+   * Returns the line that starts a cell of the given type in the bot's response,
+   * including the newline, or undefined if the format doesn't have one.
+   */
+  cellHeader(cellType: string): string | undefined;
+
+  /** The line that ends a cell in the bot's response, if the format has one. */
+  readonly cellFooter?: string;
+
+  /**
+   * Returns the line that starts a cell output, including the newline, or
+   * undefined if the format doesn't have one. The bot isn't supposed to write
+   * outputs, but it sometimes does.
+   */
+  outputHeader(kind: OutputKind): string | undefined;
+
+  /** Returns the line that ends a cell output, if the format has one. */
+  outputFooter?(kind: OutputKind): string;
+
+  /** A stop sequence that cuts off the bot if it starts to write a cell output. */
+  readonly stopSequence: string;
+}
+
+/** Cells are separated by lines such as `%python` and `%output`. */
+const percentFormat: TranscriptFormat = {
+  name: "percent",
+
+  formatCell: (languageId, text) => `%${languageId}\n${text}\n`,
+
+  formatOutput: (kind, text) => `%${kind}\n${text}\n`,
+
+  cellHeader: (cellType) => `%${cellType}\n`,
+
+  outputHeader: (kind) => `%${kind}\n`,
+
+  stopSequence: "\n%output\n",
+};
+
+/** Cells are wrapped in XML-style tags, such as `<cell lang="python">`. */
+const xmlFormat: TranscriptFormat = {
+  name: "xml",
+
+  formatCell: (languageId, text) =>
+    `<cell lang="${languageId}">\n${text}\n</cell>\n`,
+
+  formatOutput: (kind, text) => `<${kind}>\n${text}\n</${kind}>\n`,
+
+  cellHeader: (cellType) => `<cell lang="${cellType}">\n`,
+
+  cellFooter: "</cell>\n",
+
+  outputHeader: (kind) => `<${kind}>\n`,
+
+  outputFooter: (kind) => `</${kind}>\n`,
+
+  stopSequence: "\n<output>\n",
+};
+
+/** Returns a fence that's longer than any run of backticks in the text. */
+const fenceFor = (text: string): string => {
+  const runs = text.match(/`+/g) ?? [];
+  const longest = Math.max(2, ...runs.map((run) => run.length));
+  return "`".repeat(longest + 1);
+};
+
+/**
+ * Markdown cells are written as-is and code cells as fenced code blocks,
+ * as in a Markdown document.
+ *
+ * The bot's response is parsed as Markdown, with code blocks becoming code cells.
+ */
+const markdownFormat: TranscriptFormat = {
+  name: "markdown",
+
+  formatCell: (languageId, text) => {
+    if (languageId === "markdown") {
+      return `${text}\n\n`;
+    }
+    const fence = fenceFor(text);
+    return `${fence}${languageId}\n${text}\n${fence}\n\n`;
+  },
+
+  formatOutput: (kind, text) => {
+    const fence = fenceFor(text);
+    return `${fence}${kind}\n${text}\n${fence}\n\n`;
+  },
+
+  cellHeader: (_cellType) => undefined,
+
+  // Outputs are code blocks, such as "```output".
+  outputHeader: (_kind) => undefined,
+
+  stopSequence: "\n```output\n",
+};
+
+export const allTranscriptFormats = [
+  percentFormat,
+  xmlFormat,
+  markdownFormat,
+] as const;
+
+export const allTranscriptFormatNames = ["percent", "xml", "markdown"] as const;
+
+export type TranscriptFormatName = typeof allTranscriptFormatNames[number];
+
+export const defaultTranscriptFormat: TranscriptFormat = percentFormat;
+
+/** Returns the format with the given name, or the default format if not found. */
+export function getTranscriptFormat(name: string): TranscriptFormat {
+  return allTranscriptFormats.find((f) => f.name === name) ??
+    defaultTranscriptFormat;
+}
@@ -0,0 +1,63 @@
+import expect from "expect";
+
+import {
+  addAlternative,
+  isAlternatives,
+  SavedCell,
+  selectAlternative,
+} from "../../lib/alternatives";
+
+const reply = (text: string): SavedCell[] => [
+  { kind: "markdown", languageId: "markdown", text },
+];
+
+describe("addAlternative", () => {
+  it("saves the first reply and selects the new one", () => {
+    const alts = addAlternative(undefined, reply("one"));
+    expect(alts).toEqual({ replies: [reply("one"), []], selected: 1 });
+    expect(isAlternatives(alts)).toBe(true);
+  });
+
+  it("saves the shown reply before adding another", () => {
+    let alts = addAlternative(undefined, reply("one"));
+    alts = addAlternative(alts, reply("two"));
+    expect(alts).toEqual({
+      replies: [reply("one"), reply("two"), []],
+      selected: 2,
+    });
+  });
+
+  it("saves edits to an earlier reply that's shown", () => {
+    let alts = addAlternative(undefined, reply("one"));
+    alts = selectAlternative(alts, reply("two"), 0)!;
+    alts = addAlternative(alts, reply("one, edited"));
+    expect(alts.replies).toEqual([reply("one, edited"), reply("two"), []]);
+    expect(alts.selected).toBe(2);
+  });
+});
+
+describe("selectAlternative", () => {
+  const alts = addAlternative(undefined, reply("one"));
+
+  it("saves the shown reply and selects another", () => {
+    expect(selectAlternative(alts, reply("two"), 0)).toEqual({
+      replies: [reply("one"), reply("two")],
+      selected: 0,
+    });
+  });
+
+  it("returns undefined for the current reply or one that doesn't exist", () => {
+    expect(selectAlternative(alts, reply("two"), 1)).toBeUndefined();
+    expect(selectAlternative(alts, reply("two"), 2)).toBeUndefined();
+    expect(selectAlternative(alts, reply("two"), -1)).toBeUndefined();
+  });
+});
+
+describe("isAlternatives", () => {
+  it("rejects metadata that doesn't fit", () => {
+    expect(isAlternatives(undefined)).toBe(false);
+    expect(isAlternatives({ replies: [], selected: 0 })).toBe(false);
+    expect(isAlternatives({ replies: [[{ kind: "raw" }]], selected: 0 }))
+      .toBe(false);
+  });
+});
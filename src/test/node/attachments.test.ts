@@ -0,0 +1,29 @@
+import expect from "expect";
+import { existsSync, readFileSync } from "fs";
+
+import { TempAttachments } from "../../lib/attachments";
+
+describe("TempAttachments", () => {
+  it("doesn't create any files when there are no images", async () => {
+    const attachments = await TempAttachments.write([]);
+    expect(attachments.files).toEqual([]);
+    await attachments.dispose();
+  });
+
+  it("writes each image to a file and removes them afterwards", async () => {
+    const data = new Uint8Array([1, 2, 3]);
+    const attachments = await TempAttachments.write([
+      { mime: "image/png", data, altText: "" },
+      { mime: "image/svg+xml", data, altText: "" },
+    ]);
+
+    const [png, svg] = attachments.files;
+    expect(png.path).toMatch(/image-1\.png$/);
+    expect(png.mime).toEqual("image/png");
+    expect(svg.path).toMatch(/image-2\.svg$/);
+    expect(Array.from(readFileSync(png.path))).toEqual([1, 2, 3]);
+
+    await attachments.dispose();
+    expect(existsSync(png.path)).toBe(false);
+  });
+});
@@ -1,7 +1,19 @@
 import expect from "expect";
 import * as fc from "fast-check";
 
-import { CellError, CellOutput, chooseBotPrompt } from "../../lib/botrequest";
+import {
+  buildBotPrompt,
+  Cell,
+  CellError,
+  CellImage,
+  CellOutput,
+  chooseBotPrompt,
+  continueRequest,
+  elideOutput,
+  estimateTokens,
+  PromptOptions,
+} from "../../lib/botrequest";
+import { getTranscriptFormat } from "../../lib/transcript";
 
 describe("chooseBotPrompt", () => {
   const checkEmptyPrompt = ([languageId, text]: [string, string]) => {
@@ -85,6 +97,20 @@ describe("chooseBotPrompt", () => {
     }));
   });
 
+  it("labels stderr outputs separately", () => {
+    const outputs: CellOutput[] = [
+      ["text", "hello"],
+      ["stderr", "UserWarning: careful"],
+    ];
+    const cells = [{ languageId: "python", text: "run()", outputs }];
+    const cellAt = (idx: number) => cells[idx];
+    const prompt = chooseBotPrompt(cellAt, 0);
+
+    expect(prompt).toEqual(
+      "%python\nrun()\n%output\nhello\n%stderr\nUserWarning: careful\n",
+    );
+  });
+
   it("doesn't include text after the active cell index", () => {
     const cells = [
       { languageId: "markdown", text: "first" },
@@ -122,10 +148,10 @@ describe("chooseBotPrompt", () => {
     }));
   });
 
-  const anyHorizontalRule = fc.stringOf(fc.constantFrom("-", "*", "_"), {
-    minLength: 3,
-    maxLength: 10,
-  });
+  const anyHorizontalRule = fc.tuple(
+    fc.constantFrom("-", "*", "_"),
+    fc.integer({ min: 3, max: 10 }),
+  ).map(([char, length]) => char.repeat(length));
 
   it("doesn't include text before a horizontal rule", () => {
     const textBefore = fc.unicodeString({ minLength: 1 }).map((text) =>
@@ -179,3 +205,465 @@ describe("chooseBotPrompt", () => {
     }));
   });
 });
+
+describe("buildBotPrompt", () => {
+  const cells = [
+    { languageId: "markdown", text: "first question" },
+    { languageId: "markdown", text: "bot: first answer" },
+    { languageId: "markdown", text: "second question" },
+  ];
+  const cellAt = (idx: number) => cells[idx];
+
+  it("includes every cell when there's no budget", () => {
+    const prompt = buildBotPrompt(cellAt, 2);
+    expect(prompt.text).toEqual(chooseBotPrompt(cellAt, 2));
+    expect(prompt.tokens).toBeGreaterThan(0);
+    expect(prompt.omittedCells).toEqual(0);
+  });
+
+  it("drops the oldest cells to stay within the budget", () => {
+    const prompt = buildBotPrompt(cellAt, 2, { tokenBudget: 14, cue: "bot" });
+    expect(prompt.text).toEqual(
+      "%markdown\nbot: first answer\n%markdown\nsecond question\n",
+    );
+    expect(prompt.tokens).toBeLessThanOrEqual(14);
+    expect(prompt.omittedCells).toEqual(1);
+  });
+
+  it("keeps every cell of the last turn", () => {
+    const cells = [
+      { languageId: "markdown", text: "first question" },
+      { languageId: "markdown", text: "bot: first answer" },
+      { languageId: "markdown", text: "Why does this fail?" },
+      { languageId: "python", text: "print(1 / 0)" },
+    ];
+    const prompt = buildBotPrompt((idx) => cells[idx], 3, {
+      tokenBudget: 1,
+      cue: "bot",
+    });
+    expect(prompt.text).toEqual(
+      "%markdown\nWhy does this fail?\n%python\nprint(1 / 0)\n",
+    );
+    expect(prompt.omittedCells).toEqual(2);
+  });
+
+  it("always keeps the current cell", () => {
+    fc.assert(fc.property(fc.integer({ min: 1, max: 100 }), (tokenBudget) => {
+      const prompt = buildBotPrompt(cellAt, 2, { tokenBudget });
+      expect(prompt.text.endsWith("%markdown\nsecond question\n")).toBe(true);
+      expect(prompt.omittedCells).toBeLessThanOrEqual(2);
+    }));
+  });
+});
+
+describe("estimateTokens", () => {
+  it("returns zero for empty text", () => {
+    expect(estimateTokens("")).toEqual(0);
+  });
+
+  it("counts about four characters per token", () => {
+    expect(estimateTokens("abcd")).toEqual(1);
+    expect(estimateTokens("abcde")).toEqual(2);
+  });
+});
+
+describe("elideOutput", () => {
+  const lines = (n: number) =>
+    Array.from({ length: n }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+  it("returns short output unchanged", () => {
+    fc.assert(fc.property(fc.unicodeString(), (text) => {
+      const limit = text.length + 1;
+      expect(elideOutput(text, limit, limit)).toEqual(text);
+      expect(elideOutput(text, 0, 0)).toEqual(text);
+    }));
+  });
+
+  it("keeps the first and last lines", () => {
+    expect(elideOutput(lines(5000), 4, 0)).toEqual(
+      "line 1\nline 2\n... 4,996 lines omitted ...\nline 4999\nline 5000\n",
+    );
+  });
+
+  it("keeps the first and last characters", () => {
+    expect(elideOutput("abcdefghij", 0, 4)).toEqual(
+      "ab\n... 6 characters omitted ...\nij",
+    );
+  });
+
+  it("truncates the stack of an error output", () => {
+    const error = { name: "Error", message: "oops", stack: lines(10) };
+    const cells = [{
+      languageId: "python",
+      text: "fail()",
+      outputs: [["error", error] as CellOutput],
+    }];
+    const prompt = buildBotPrompt((idx) => cells[idx], 0, {
+      maxOutputLines: 2,
+    });
+    expect(prompt.text).toEqual(
+      "%python\nfail()\n%output\nline 1\n... 8 lines omitted ...\nline 10\n\n",
+    );
+  });
+});
+
+describe("image attachments", () => {
+  const image = (size: number): CellImage => ({
+    mime: "image/png",
+    data: new Uint8Array(size),
+    altText: "<Figure>",
+  });
+
+  const plotCells = (images: CellImage[]) =>
+    images.map((img, i) => ({
+      languageId: "python",
+      text: `plot(${i})`,
+      outputs: [["image", img] as CellOutput],
+    }));
+
+  it("uses the alt text when images aren't attached", () => {
+    const cells = plotCells([image(10)]);
+    const prompt = buildBotPrompt((idx) => cells[idx], 0);
+    expect(prompt.text).toEqual("%python\nplot(0)\n%output\n<Figure>\n");
+    expect(prompt.images).toEqual([]);
+  });
+
+  it("refers to attached images by number", () => {
+    const images = [image(10), image(20)];
+    const cells = plotCells(images);
+    const prompt = buildBotPrompt((idx) => cells[idx], 1, { maxImages: 5 });
+    expect(prompt.text).toEqual(
+      "%python\nplot(0)\n%output\n[image/png] (attachment 1)\n" +
+        "%python\nplot(1)\n%output\n[image/png] (attachment 2)\n",
+    );
+    expect(prompt.images).toEqual(images);
+  });
+
+  it("prefers the most recent images when over the limit", () => {
+    const images = [image(10), image(20), image(30)];
+    const cells = plotCells(images);
+
+    const byCount = buildBotPrompt((idx) => cells[idx], 2, { maxImages: 2 });
+    expect(byCount.images).toEqual([images[1], images[2]]);
+    expect(byCount.text).toContain("plot(0)\n%output\n<Figure>\n");
+    expect(byCount.text).toContain("plot(1)\n%output\n[image/png] (attachment 1)\n");
+
+    const bySize = buildBotPrompt((idx) => cells[idx], 2, {
+      maxImages: 3,
+      maxImageBytes: 45,
+    });
+    expect(bySize.images).toEqual([images[0], images[2]]);
+  });
+});
+
+describe("hidden and pinned cells", () => {
+  it("skips hidden cells", () => {
+    const cells = [
+      { languageId: "markdown", text: "shown" },
+      { languageId: "python", text: "secret()", hidden: true },
+      { languageId: "markdown", text: "question" },
+    ];
+    const prompt = chooseBotPrompt((idx) => cells[idx], 2);
+    expect(prompt).toEqual("%markdown\nshown\n%markdown\nquestion\n");
+  });
+
+  it("keeps pinned cells above a horizontal rule", () => {
+    const cells = [
+      { languageId: "python", text: "import pandas", pinned: true },
+      { languageId: "markdown", text: "old chat" },
+      { languageId: "markdown", text: "---" },
+      { languageId: "markdown", text: "question" },
+    ];
+    const prompt = chooseBotPrompt((idx) => cells[idx], 3);
+    expect(prompt).toEqual("%python\nimport pandas\n%markdown\nquestion\n");
+  });
+
+  it("doesn't drop pinned cells to fit the budget", () => {
+    const cells = [
+      { languageId: "markdown", text: "pinned setup", pinned: true },
+      { languageId: "markdown", text: "first answer", fromBot: true },
+      { languageId: "markdown", text: "question" },
+    ];
+    const prompt = buildBotPrompt((idx) => cells[idx], 2, { tokenBudget: 1 });
+    expect(prompt.text).toEqual(
+      "%markdown\npinned setup\n%markdown\nquestion\n",
+    );
+    expect(prompt.omittedCells).toEqual(1);
+  });
+});
+
+describe("chat start detection", () => {
+  const promptFor = (texts: string[], options: PromptOptions = {}) => {
+    const cells = texts.map((text) => ({ languageId: "markdown", text }));
+    return buildBotPrompt((idx) => cells[idx], cells.length - 1, options).text;
+  };
+
+  it("accepts horizontal rules with spaces", () => {
+    expect(promptFor(["before", "- - -", "after"])).toEqual(
+      "%markdown\nafter\n",
+    );
+    expect(promptFor(["before", " * * * ", "after"])).toEqual(
+      "%markdown\nafter\n",
+    );
+  });
+
+  it("ignores the underline of a setext heading", () => {
+    const text = "Heading\n---\nbody";
+    expect(promptFor(["before", text])).toEqual(
+      `%markdown\nbefore\n%markdown\n${text}\n`,
+    );
+  });
+
+  it("ignores rules in code blocks", () => {
+    for (const fence of ["```", "~~~~"]) {
+      const text = `${fence}yaml\n---\na: 1\n${fence}`;
+      expect(promptFor(["before", text])).toEqual(
+        `%markdown\nbefore\n%markdown\n${text}\n`,
+      );
+    }
+  });
+
+  it("ignores front matter in the first cell", () => {
+    const text = "---\ntitle: Chat\n---\nHello";
+    expect(promptFor([text, "question"])).toEqual(
+      `%markdown\n${text}\n%markdown\nquestion\n`,
+    );
+  });
+
+  it("treats a rule after a list as a chat start", () => {
+    expect(promptFor(["- item\n---\nafter"])).toEqual("%markdown\nafter\n");
+  });
+
+  it("can ignore horizontal rules", () => {
+    const options = { chatStart: { horizontalRules: false } };
+    expect(promptFor(["before", "---\nafter"], options)).toEqual(
+      "%markdown\nbefore\n%markdown\n---\nafter\n",
+    );
+  });
+
+  it("starts a chat at a marker", () => {
+    const options = { chatStart: { marker: "<!-- new chat -->" } };
+    expect(
+      promptFor(["before", "old\n<!-- new chat -->\nafter"], options),
+    ).toEqual("%markdown\nafter\n");
+  });
+
+  it("starts a chat at a tagged cell", () => {
+    const cells = [
+      { languageId: "markdown", text: "before" },
+      { languageId: "markdown", text: "first", tags: ["new-chat"] },
+      { languageId: "markdown", text: "second" },
+    ];
+    const options = { chatStart: { tag: "new-chat" } };
+    expect(buildBotPrompt((idx) => cells[idx], 2, options).text).toEqual(
+      "%markdown\nfirst\n%markdown\nsecond\n",
+    );
+  });
+
+  it("ignores rules and markers that the bot wrote", () => {
+    const cells = [
+      { languageId: "markdown", text: "question" },
+      { languageId: "markdown", text: "answer\n\n---\n\nmore", fromBot: true },
+      { languageId: "markdown", text: "🤖: <!-- new chat -->" },
+      { languageId: "markdown", text: "thanks" },
+    ];
+    const options = {
+      cue: "🤖",
+      chatStart: { horizontalRules: true, marker: "<!-- new chat -->" },
+    };
+    expect(buildBotPrompt((idx) => cells[idx], 3, options).text).toEqual(
+      "%markdown\nquestion\n%markdown\nanswer\n\n---\n\nmore\n" +
+        "%markdown\n🤖: <!-- new chat -->\n%markdown\nthanks\n",
+    );
+  });
+
+  it("still starts a chat at a rule that the user wrote", () => {
+    const cells = [
+      { languageId: "markdown", text: "old" },
+      { languageId: "markdown", text: "---\nnew", fromBot: false },
+    ];
+    expect(buildBotPrompt((idx) => cells[idx], 1, { cue: "🤖" }).text)
+      .toEqual("%markdown\nnew\n");
+  });
+
+  it("starts a chat at a rule after a label that isn't the cue", () => {
+    const cells = [
+      { languageId: "markdown", text: "old" },
+      { languageId: "markdown", text: "Note: ask the bot: why?\n\n---\nnew" },
+    ];
+    const prompt = buildBotPrompt((idx) => cells[idx], 1, {
+      cue: "{persona} bot",
+    });
+    expect(prompt.text).toEqual("%markdown\nnew\n");
+    expect(prompt.turns.map((turn) => turn.role)).toEqual(["user"]);
+  });
+});
+
+describe("transcript formats", () => {
+  const cells = [
+    { languageId: "markdown", text: "question" },
+    {
+      languageId: "python",
+      text: "print(1)",
+      outputs: [["text", "1"] as CellOutput],
+    },
+  ];
+
+  it("writes cells in XML format", () => {
+    const format = getTranscriptFormat("xml");
+    const prompt = buildBotPrompt((idx) => cells[idx], 1, { format });
+    expect(prompt.text).toEqual(
+      '<cell lang="markdown">\nquestion\n</cell>\n' +
+        '<cell lang="python">\nprint(1)\n</cell>\n' +
+        "<output>\n1\n</output>\n",
+    );
+  });
+
+  it("writes cells in Markdown format", () => {
+    const format = getTranscriptFormat("markdown");
+    const prompt = buildBotPrompt((idx) => cells[idx], 1, { format });
+    expect(prompt.text).toEqual(
+      "question\n\n```python\nprint(1)\n```\n\n```output\n1\n```\n\n",
+    );
+  });
+});
+
+describe("conversation turns", () => {
+  const turnsFor = (cells: Cell[], options: PromptOptions = {}) =>
+    buildBotPrompt((idx) => cells[idx], cells.length - 1, {
+      cue: "🤖",
+      ...options,
+    }).turns;
+
+  it("puts everything in one user turn when the bot hasn't replied", () => {
+    const turns = turnsFor([
+      { languageId: "markdown", text: "question" },
+      { languageId: "python", text: "print(1)" },
+    ]);
+    expect(turns).toEqual([
+      { role: "user", text: "%markdown\nquestion\n%python\nprint(1)\n" },
+    ]);
+  });
+
+  it("recognizes the bot's replies by their cue", () => {
+    const turns = turnsFor([
+      { languageId: "markdown", text: "question" },
+      { languageId: "markdown", text: "🤖: answer" },
+      { languageId: "python", text: "print(1)" },
+      { languageId: "markdown", text: "thanks" },
+    ]);
+    expect(turns).toEqual([
+      { role: "user", text: "%markdown\nquestion\n" },
+      { role: "assistant", text: "%markdown\n🤖: answer\n%python\nprint(1)\n" },
+      { role: "user", text: "%markdown\nthanks\n" },
+    ]);
+  });
+
+  it("recognizes replies written with any expansion of a cue template", () => {
+    const turns = turnsFor([
+      { languageId: "markdown", text: "question" },
+      { languageId: "markdown", text: "🤖 gpt-4: answer" },
+      { languageId: "markdown", text: "🤖 llama3:8b: another" },
+      { languageId: "markdown", text: "Note: not the bot" },
+    ], { cue: "🤖 {model}" });
+    expect(turns.map((turn) => turn.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+    ]);
+  });
+
+  it("prefers cell metadata over the cue", () => {
+    const turns = turnsFor([
+      { languageId: "markdown", text: "🤖: quoted", fromBot: false },
+      { languageId: "python", text: "x = 1", fromBot: true },
+    ]);
+    expect(turns.map((turn) => turn.role)).toEqual(["user", "assistant"]);
+  });
+
+  it("doesn't send the bot's collapsed reasoning back to it", () => {
+    const reply = "🤖: \n<details>\n<summary>Reasoning</summary>\n\n" +
+      "The user wants x.\n\n</details>\n\nSet x.";
+    const turns = turnsFor([
+      { languageId: "markdown", text: "question" },
+      { languageId: "markdown", text: reply },
+      { languageId: "markdown", text: "thanks" },
+    ]);
+    expect(turns).toEqual([
+      { role: "user", text: "%markdown\nquestion\n" },
+      { role: "assistant", text: "%markdown\n🤖: \nSet x.\n" },
+      { role: "user", text: "%markdown\nthanks\n" },
+    ]);
+  });
+
+  it("drops reasoning that was cut off", () => {
+    const reply = "🤖: \n<details>\n<summary>Reasoning</summary>\n\nHmm";
+    const turns = turnsFor([
+      { languageId: "markdown", text: "question" },
+      { languageId: "markdown", text: reply },
+      { languageId: "markdown", text: "go on" },
+    ]);
+    expect(turns[1]).toEqual({ role: "assistant", text: "%markdown\n🤖: \n" });
+  });
+
+  it("sends outputs of the bot's code as part of the user's turn", () => {
+    const turns = turnsFor([
+      {
+        languageId: "python",
+        text: "print(1)",
+        outputs: [["text", "1"]],
+        fromBot: true,
+      },
+      { languageId: "markdown", text: "why?" },
+    ]);
+    expect(turns).toEqual([
+      { role: "assistant", text: "%python\nprint(1)\n" },
+      { role: "user", text: "%output\n1\n%markdown\nwhy?\n" },
+    ]);
+  });
+
+  it("asks the bot to continue a cut-off cell, without its outputs", () => {
+    const cells: Cell[] = [
+      { languageId: "markdown", text: "count to 3" },
+      {
+        languageId: "python",
+        text: "for i in range(3):\n    print(",
+        outputs: [["stderr", "SyntaxError"]],
+        fromBot: true,
+      },
+    ];
+    const turns = turnsFor(cells, { continueLast: true });
+    expect(turns).toEqual([
+      { role: "user", text: "%markdown\ncount to 3\n" },
+      {
+        role: "assistant",
+        text: "%python\nfor i in range(3):\n    print(\n",
+      },
+      {
+        role: "user",
+        text: "%markdown\n" + continueRequest(cells[1].text) + "\n",
+      },
+    ]);
+    expect(turns[2].text).toContain('"    print("');
+  });
+
+  it("joins to the same text as the flat prompt", () => {
+    const anyCell = fc.record({
+      languageId: fc.constantFrom("markdown", "python"),
+      text: fc.oneof(fc.string(), fc.string().map((s) => `🤖: ${s}`)),
+      fromBot: fc.option(fc.boolean(), { nil: undefined }),
+    });
+    fc.assert(
+      fc.property(fc.array(anyCell, { minLength: 1 }), (cells) => {
+        const prompt = buildBotPrompt(
+          (idx) => cells[idx],
+          cells.length - 1,
+          { cue: "🤖" },
+        );
+        expect(prompt.turns.map((turn) => turn.text).join("")).toEqual(
+          prompt.text,
+        );
+      }),
+    );
+  });
+});
@@ -4,17 +4,31 @@ import * as fc from "fast-check";
 import { anyChunksOf, concat, TestReader } from "../lib/testinput";
 
 import {
-  allCellTypes,
   BotResponse,
   CellWriter,
   checkCueLabel,
+  InventedOutputAction,
+  ReasoningAction,
+  ReplyOptions,
+  ResumeState,
 } from "../../lib/botresponse";
+import {
+  defaultLanguageRegistry,
+  defaultLanguages,
+  LanguageRegistry,
+} from "../../lib/languages";
+import { isFenceClose, parseFenceOpen } from "../../lib/fences";
+import { CodeBlockPolicy } from "../../lib/codeblocks";
 
 import { StringWriter } from "../../lib/streams";
+import { getTranscriptFormat } from "../../lib/transcript";
 
 interface Cell {
-  type: "code" | "markup";
+  type: "code" | "markup" | "raw";
   text: string;
+
+  /** Set if a code cell isn't in the notebook's language. */
+  language?: string;
 }
 
 class TestCellWriter implements CellWriter {
@@ -43,7 +57,7 @@ class TestCellWriter implements CellWriter {
     }
   }
 
-  async startCodeCell(): Promise<boolean> {
+  async startCodeCell(languageId?: string): Promise<boolean> {
     if (this.writing) {
       throw new Error("already writing");
     }
@@ -54,7 +68,11 @@ class TestCellWriter implements CellWriter {
       if (this.done) {
         throw new Error("startCodeCell after done");
       }
-      this.cells.push({ type: "code", text: "" });
+      this.cells.push(
+        languageId
+          ? { type: "code", text: "", language: languageId }
+          : { type: "code", text: "" },
+      );
       return true;
     } finally {
       this.writing = false;
@@ -79,6 +97,24 @@ class TestCellWriter implements CellWriter {
     }
   }
 
+  async startRawCell(): Promise<boolean> {
+    if (this.writing) {
+      throw new Error("already writing");
+    }
+    this.writing = true;
+    await sleep(0);
+
+    try {
+      if (this.done) {
+        throw new Error("startRawCell after done");
+      }
+      this.cells.push({ type: "raw", text: "" });
+      return true;
+    } finally {
+      this.writing = false;
+    }
+  }
+
   async close(): Promise<boolean> {
     if (this.writing) {
       throw new Error("already writing");
@@ -98,9 +134,44 @@ class TestCellWriter implements CellWriter {
   }
 }
 
+interface CopyOptions extends ReplyOptions {
+  /** The name of the transcript format. Defaults to "percent". */
+  format?: string;
+
+  /** If set, the reply continues this cell instead of starting a new one. */
+  continuing?: { cell: Cell; state: ResumeState };
+}
+
+/** Copies a reply and returns the cells that were written. */
+const copyCells = async (chunks: string[], options: CopyOptions = {}) => {
+  const { format, continuing, ...replyOptions } = options;
+  const response = new BotResponse(
+    new TestReader(chunks),
+    "bot",
+    getTranscriptFormat(format ?? "percent"),
+    replyOptions,
+  );
+  const writer = new TestCellWriter();
+  if (continuing) {
+    const { cell, state } = continuing;
+    writer.cells.push({ ...cell });
+    const languageId = cell.type === "markup"
+      ? "markdown"
+      : cell.language ?? "python";
+    await response.continue(writer, state, languageId);
+  } else {
+    await response.copy(writer);
+  }
+  return writer.cells;
+};
+
 const anyWhitespace = fc.stringOf(fc.constantFrom(" ", "\t"));
 
-const tags = ["python", "typescript", "markdown"].map((s) => `%${s}\n`);
+const allCellTypes = ["markdown", ...defaultLanguageRegistry.ids];
+
+const tags = ["markdown", ...defaultLanguageRegistry.fenceNames].map((s) =>
+  `%${s}\n`
+);
 
 describe("BotResponse", () => {
   describe("matchHeaderLine", () => {
@@ -127,10 +198,19 @@ describe("BotResponse", () => {
       );
     });
 
+    it("matches an alias of a language", async () => {
+      const response = new BotResponse(new TestReader(["%py\nx = 1\n"]));
+      expect(await response.matchHeaderLine()).toStrictEqual({
+        type: "python",
+        name: "py",
+        line: "%py\n",
+      });
+    });
+
     for (const type of allCellTypes) {
       it(`matches header: %${type}`, async () => {
         const chunked = anyChunksOf(fc.constant(`%${type}\n`));
-        const expected = { type, line: `%${type}\n` };
+        const expected = { type, name: type, line: `%${type}\n` };
 
         await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
           const response = new BotResponse(new TestReader(chunks));
@@ -148,7 +228,9 @@ describe("BotResponse", () => {
       expect(writer.buffer).toBe("");
     });
 
-    const allHeaders = new Set(allCellTypes.map((t) => `%${t}`));
+    const allHeaders = new Set(
+      ["markdown", ...defaultLanguageRegistry.fenceNames].map((t) => `%${t}`),
+    );
     const nonNewline = fc.unicode().filter((s) => s !== "\n");
     const nonHeaderLine = fc.stringOf(nonNewline).filter((s) =>
       !allHeaders.has(s)
@@ -250,6 +332,32 @@ describe("BotResponse", () => {
         }),
       );
     });
+
+    it("keeps a cue that matches the template", async () => {
+      for (const cue of ["🤖 llama3.1:8b", "🤖", "🤖 gpt-4 (v2)"]) {
+        const response = new BotResponse(
+          new TestReader([cue + ": Hello"]),
+          "🤖 gpt-4",
+          undefined,
+          { cueTemplate: "🤖 {model}" },
+        );
+        const writer = new StringWriter();
+        await response.copyOrAddCue(writer);
+        expect(writer.buffer).toBe(cue + ": ");
+      }
+    });
+
+    it("adds the cue if the label doesn't match the template", async () => {
+      const response = new BotResponse(
+        new TestReader(["Note (v2): Hello"]),
+        "🤖 gpt-4",
+        undefined,
+        { cueTemplate: "🤖 {model}" },
+      );
+      const writer = new StringWriter();
+      await response.copyOrAddCue(writer);
+      expect(writer.buffer).toBe("🤖 gpt-4: ");
+    });
   });
 
   describe("copy", () => {
@@ -468,14 +576,529 @@ describe("BotResponse", () => {
   });
 });
 
+describe("BotResponse with other transcript formats", () => {
+  it("splits cells using XML tags", async () => {
+    const input = 'Sure.\n<cell lang="python">\nx = 1\n</cell>\n\n' +
+      '<cell lang="markdown">\nbot: Done.\n</cell>';
+    const chunked = anyChunksOf(fc.constant(input));
+
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, { format: "xml" })).toEqual([
+        { type: "markup", text: "bot: Sure.\n" },
+        { type: "code", text: "x = 1\n" },
+        { type: "markup", text: "bot: Done.\n" },
+      ]);
+    }));
+  });
+
+  it("treats text between XML cells as Markdown", async () => {
+    const input = '<cell lang="python">\nx = 1\n</cell>\nThat sets x.\n';
+    expect(await copyCells([input], { format: "xml" })).toEqual([
+      { type: "code", text: "x = 1\n" },
+      { type: "markup", text: "bot: That sets x.\n" },
+    ]);
+  });
+
+  it("doesn't treat percent lines as headers in Markdown format", async () => {
+    const input = "Use this:\n%python\n```python\nx = 1\n```\n";
+    expect(await copyCells([input], { format: "markdown" })).toEqual([
+      { type: "markup", text: "bot: Use this:\n%python\n" },
+      { type: "code", text: "x = 1\n" },
+    ]);
+  });
+});
+
+describe("BotResponse with other languages", () => {
+  it("converts code blocks that use an alias", async () => {
+    const input = "Try this:\n```py\nx = 1\n```\n";
+    expect(await copyCells([input])).toEqual([
+      { type: "markup", text: "bot: Try this:\n" },
+      { type: "code", text: "x = 1\n" },
+    ]);
+  });
+
+  it("converts code blocks in a language added to the registry", async () => {
+    const languages = new LanguageRegistry([
+      ...defaultLanguages,
+      { id: "ocaml", aliases: ["ml"] },
+    ]);
+    const input = "%markdown\nbot: Try this:\n```ml\nlet x = 1\n```\n";
+    expect(await copyCells([input], { languages })).toEqual([
+      { type: "markup", text: "bot: Try this:\n" },
+      { type: "code", text: "let x = 1\n" },
+    ]);
+  });
+});
+
+describe("BotResponse code fences", () => {
+  const examples: [string, string, string][] = [
+    ["tildes", "~~~python\nx = 1\n~~~\n", "x = 1\n"],
+    [
+      "a longer fence around a nested one",
+      "````python\ns = '''\n```\n'''\n````\n",
+      "s = '''\n```\n'''\n",
+    ],
+    ["an info string", "```python title=x\nx = 1\n```\n", "x = 1\n"],
+    ["an alias", "```py\nx = 1\n```\n", "x = 1\n"],
+    [
+      "indentation in a list item",
+      "  ```python\n  if x:\n      y()\n  ```\n",
+      "if x:\n    y()\n",
+    ],
+    ["no closing fence", "```python\nx = 1\n", "x = 1\n"],
+  ];
+
+  for (const [name, input, code] of examples) {
+    it(`handles ${name}`, async () => {
+      const chunked = anyChunksOf(fc.constant("Try this:\n" + input));
+      await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+        expect(await copyCells(chunks)).toEqual([
+          { type: "markup", text: "bot: Try this:\n" },
+          { type: "code", text: code },
+        ]);
+      }));
+    });
+  }
+
+  it("doesn't close a fence with a shorter or different fence", async () => {
+    const input = "````python\nx = 1\n~~~~\n```\n````\n";
+    expect(await copyCells([input])).toEqual([
+      { type: "code", text: "x = 1\n~~~~\n```\n" },
+    ]);
+  });
+
+  it("leaves code blocks in other languages in the Markdown cell", async () => {
+    const input = "Example:\n````markdown\n```python\nx = 1\n```\n````\n";
+    expect(await copyCells([input])).toEqual([
+      { type: "markup", text: "bot: " + input },
+    ]);
+  });
+
+  const anyFence = fc.record({
+    char: fc.constantFrom("`", "~"),
+    length: fc.integer({ min: 3, max: 6 }),
+    indent: fc.integer({ min: 0, max: 3 }),
+  });
+
+  const anyInfo = fc.tuple(
+    fc.constantFrom(...defaultLanguageRegistry.fenceNames),
+    fc.constantFrom("", " ", " title=x", "\t{.numberLines}"),
+  ).map(([name, rest]) => name + rest);
+
+  const anyCodeLine = fc.unicodeString().map((s) => s.replace(/\n/g, ""));
+
+  it("copies any code block to a code cell", async () => {
+    const args = fc.tuple(anyFence, anyInfo, fc.array(anyCodeLine)).filter(
+      ([fence, _, lines]) => {
+        // the code can't contain a closing fence
+        const open = parseFenceOpen(fence.char.repeat(fence.length));
+        return lines.every((line) => !open || !isFenceClose(line, open));
+      },
+    ).chain(([fence, info, lines]) => {
+      const indent = " ".repeat(fence.indent);
+      const marker = fence.char.repeat(fence.length);
+      const input = indent + marker + info + "\n" +
+        lines.map((line) => indent + line + "\n").join("") +
+        indent + marker + "\n";
+      const code = lines.map((line) => line + "\n").join("");
+      return anyChunksOf(fc.constant(input)).map(({ chunks }) => ({
+        chunks,
+        code,
+      }));
+    });
+
+    await fc.assert(fc.asyncProperty(args, async ({ chunks, code }) => {
+      expect(await copyCells(chunks)).toEqual([{ type: "code", text: code }]);
+    }));
+  });
+});
+
+describe("BotResponse code block policy", () => {
+  const policy = new CodeBlockPolicy("python", {
+    bash: "%%bash",
+    sh: "!",
+    json: "markdown",
+    /* eslint-disable-next-line @typescript-eslint/naming-convention */
+    "*": "raw",
+  });
+
+  const options = { codeBlocks: policy };
+
+  it("adds a cell magic", async () => {
+    expect(await copyCells(["Run:\n```bash\nls\n```\n"], options)).toEqual([
+      { type: "markup", text: "bot: Run:\n" },
+      { type: "code", text: "%%bash\nls\n" },
+    ]);
+  });
+
+  it("adds a prefix to each line that's not blank", async () => {
+    expect(await copyCells(["Run:\n```sh\nls\n\npwd\n```\n"], options))
+      .toEqual([
+        { type: "markup", text: "bot: Run:\n" },
+        { type: "code", text: "!ls\n\n!pwd\n" },
+      ]);
+  });
+
+  it("leaves data in the Markdown cell", async () => {
+    const input = "Like this:\n```json\n{}\n```\n";
+    expect(await copyCells([input], options)).toEqual([
+      { type: "markup", text: "bot: " + input },
+    ]);
+  });
+
+  it("writes other languages to a raw cell", async () => {
+    expect(await copyCells(["Like this:\n```cobol\nSTOP RUN.\n```\n"], options))
+      .toEqual([
+        { type: "markup", text: "bot: Like this:\n" },
+        { type: "raw", text: "STOP RUN.\n" },
+      ]);
+  });
+
+  it("applies the same rules to header lines", async () => {
+    const input = "%bash\nls\n%sh\nls\n\npwd\n%python\nx = 1\n";
+    expect(await copyCells([input], options)).toEqual([
+      { type: "code", text: "%%bash\nls\n" },
+      { type: "code", text: "!ls\n\n!pwd\n" },
+      { type: "code", text: "x = 1\n" },
+    ]);
+  });
+});
+
+describe("BotResponse code block policy without rules", () => {
+  const withRules = (rules: Record<string, string>) => ({
+    codeBlocks: new CodeBlockPolicy("python", rules),
+  });
+
+  it("leaves code blocks in other languages in Markdown", async () => {
+    const input = "Like this:\n```r\nx <- 1\n```\n";
+    expect(await copyCells([input], withRules({}))).toEqual([
+      { type: "markup", text: "bot: " + input },
+    ]);
+  });
+
+  it("writes a cell in another language as a code block", async () => {
+    const input = "%r\nx <- 1\n%markdown\nbot: Done.\n";
+    expect(await copyCells([input], withRules({}))).toEqual([
+      { type: "markup", text: "bot: \n```r\nx <- 1\n```\n" },
+      { type: "markup", text: "bot: Done.\n" },
+    ]);
+  });
+
+  it("closes the code block if the last line has no newline", async () => {
+    expect(await copyCells(["%r\nx <- 1"], withRules({}))).toEqual([
+      { type: "markup", text: "bot: \n```r\nx <- 1\n```\n" },
+    ]);
+  });
+
+  it("creates a code cell in the other language if there's a rule", async () => {
+    const rules = { r: "cell" };
+    expect(await copyCells(["%r\nx <- 1\n"], withRules(rules))).toEqual([
+      { type: "code", text: "x <- 1\n", language: "r" },
+    ]);
+    expect(await copyCells(["Try:\n```r\nx <- 1\n```\n"], withRules(rules)))
+      .toEqual([
+        { type: "markup", text: "bot: Try:\n" },
+        { type: "code", text: "x <- 1\n", language: "r" },
+      ]);
+  });
+});
+
+describe("BotResponse with invented output", () => {
+  const handling = (inventedOutput: InventedOutputAction, format?: string) => ({
+    inventedOutput,
+    format,
+  });
+
+  const input = "%python\nprint(1)\n%output\n2\n%markdown\nbot: Done.\n";
+
+  it("stops at an output by default", async () => {
+    expect(await copyCells([input], handling("stop"))).toEqual([
+      { type: "code", text: "print(1)\n" },
+    ]);
+  });
+
+  it("drops an output and keeps going", async () => {
+    expect(await copyCells([input], handling("drop"))).toEqual([
+      { type: "code", text: "print(1)\n" },
+      { type: "markup", text: "bot: Done.\n" },
+    ]);
+  });
+
+  it("quarantines an output in a collapsed note", async () => {
+    const cells = await copyCells([input], handling("quarantine"));
+    expect(cells.length).toBe(3);
+    expect(cells[1].type).toBe("markup");
+    expect(cells[1].text).toMatch(/^<details>\n<summary>.*output.*<\/summary>/);
+    expect(cells[1].text).toContain("```\n2\n```\n\n</details>\n");
+    expect(cells[2]).toEqual({ type: "markup", text: "bot: Done.\n" });
+  });
+
+  it("drops an output in the XML format", async () => {
+    const input = '<cell lang="python">\nprint(1)\n</cell>\n' +
+      "<stderr>\noops\n</stderr>\nThat failed.\n";
+    expect(await copyCells([input], handling("drop", "xml"))).toEqual([
+      { type: "code", text: "print(1)\n" },
+      { type: "markup", text: "bot: That failed.\n" },
+    ]);
+  });
+
+  const markdownInput = "Try:\n```python\nprint(1)\n```\n\n" +
+    "```output\n1\n```\nIt works.\n";
+
+  it("drops an output in the Markdown format", async () => {
+    expect(await copyCells([markdownInput], handling("drop", "markdown")))
+      .toEqual([
+        { type: "markup", text: "bot: Try:\n" },
+        { type: "code", text: "print(1)\n" },
+        { type: "markup", text: "bot: It works.\n" },
+      ]);
+  });
+
+  it("stops at an output in the Markdown format", async () => {
+    expect(await copyCells([markdownInput], handling("stop", "markdown")))
+      .toEqual([
+        { type: "markup", text: "bot: Try:\n" },
+        { type: "code", text: "print(1)\n" },
+      ]);
+  });
+
+  it("quarantines an output in the Markdown format", async () => {
+    const cells = await copyCells(
+      [markdownInput],
+      handling("quarantine", "markdown"),
+    );
+    expect(cells.length).toBe(3);
+    expect(cells[2].text).toMatch(/^<details>/);
+    expect(cells[2].text).toContain("```\n1\n```\n\n</details>\nIt works.\n");
+  });
+
+  it("drops any output between cells", async () => {
+    const anyLine = fc.unicodeString().map((s) => s.replace(/\n/g, "") + "\n")
+      .filter((line) => !line.startsWith("%"));
+    const anyCodeLine = anyLine.filter((line) => line.trim() !== "");
+    const args = fc.tuple(anyCodeLine, fc.array(anyLine), anyCodeLine).chain(
+      ([code, outputLines, moreCode]) => {
+        const input = `%python\n${code}%output\n${outputLines.join("")}` +
+          `%python\n${moreCode}`;
+        return anyChunksOf(fc.constant(input)).map(({ chunks }) => ({
+          chunks,
+          expected: [
+            { type: "code", text: code },
+            { type: "code", text: moreCode },
+          ],
+        }));
+      },
+    );
+
+    await fc.assert(fc.asyncProperty(args, async ({ chunks, expected }) => {
+      expect(await copyCells(chunks, handling("drop"))).toEqual(expected);
+    }));
+  });
+});
+
+describe("BotResponse with reasoning", () => {
+  const thinking = (action: ReasoningAction): ReplyOptions => ({
+    reasoning: { action, delimiters: [["<think>", "</think>"]] },
+  });
+
+  const input =
+    "<think>\nThe user wants x.\n</think>\n\nSet x.\n%python\nx = 1\n";
+
+  it("collapses reasoning", async () => {
+    const chunked = anyChunksOf(fc.constant(input));
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, thinking("collapse"))).toEqual([
+        {
+          type: "markup",
+          text: "bot: \n<details>\n<summary>Reasoning</summary>\n\n" +
+            "The user wants x.\n\n</details>\n\nSet x.\n",
+        },
+        { type: "code", text: "x = 1\n" },
+      ]);
+    }));
+  });
+
+  it("drops the bot's cue after collapsed reasoning", async () => {
+    const input = "<think>Hmm.</think>\nbot: Set x.\n";
+    expect(await copyCells([input], thinking("collapse"))).toEqual([
+      {
+        type: "markup",
+        text: "bot: \n<details>\n<summary>Reasoning</summary>\n\n" +
+          "Hmm.\n\n</details>\n\nSet x.\n",
+      },
+    ]);
+  });
+
+  it("hides reasoning", async () => {
+    expect(await copyCells([input], thinking("hide"))).toEqual([
+      { type: "markup", text: "bot: Set x.\n" },
+      { type: "code", text: "x = 1\n" },
+    ]);
+  });
+
+  it("shows reasoning as-is", async () => {
+    const cells = await copyCells([input], thinking("show"));
+    expect(cells[0].text).toEqual(
+      "bot: <think>\nThe user wants x.\n</think>\n\nSet x.\n",
+    );
+  });
+
+  it("handles an end delimiter in the middle of a line", async () => {
+    expect(await copyCells(["<think>Hmm.</think>Yes."], thinking("hide")))
+      .toEqual([
+        { type: "markup", text: "bot: Yes." },
+      ]);
+  });
+
+  it("doesn't treat headers in the reasoning as cells", async () => {
+    const input = "<think>\n%python\n</think>\nNo code.\n";
+    expect(await copyCells([input], thinking("hide"))).toEqual([
+      { type: "markup", text: "bot: No code.\n" },
+    ]);
+  });
+
+  it("hides any reasoning", async () => {
+    const anyReasoning = fc.unicodeString().filter((s) =>
+      !s.includes("</think>")
+    );
+    const args = anyReasoning.chain((reasoning) =>
+      anyChunksOf(fc.constant(`<think>${reasoning}</think>\nAnswer.\n`))
+    );
+    await fc.assert(fc.asyncProperty(args, async ({ chunks }) => {
+      expect(await copyCells(chunks, thinking("hide"))).toEqual([
+        { type: "markup", text: "bot: Answer.\n" },
+      ]);
+    }));
+  });
+});
+
+describe("BotResponse continuing a reply", () => {
+  const continuing = (cell: Cell, state: ResumeState, format?: string) => ({
+    continuing: { cell, state },
+    format,
+  });
+
+  it("appends to a Markdown cell without adding a cue", async () => {
+    const partial: Cell = { type: "markup", text: "bot: The answer" };
+    const input = " is 42.\n%python\nprint(42)\n";
+    const chunked = anyChunksOf(fc.constant(input));
+
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, continuing(partial, "markdown"))).toEqual([
+        { type: "markup", text: "bot: The answer is 42.\n" },
+        { type: "code", text: "print(42)\n" },
+      ]);
+    }));
+  });
+
+  it("appends to a code cell until the next header", async () => {
+    const partial: Cell = { type: "code", text: "for i in range(3):\n" };
+    const input = "    print(i)\n%markdown\nbot: Done.\n";
+    const chunked = anyChunksOf(fc.constant(input));
+
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, continuing(partial, "code"))).toEqual([
+        { type: "code", text: "for i in range(3):\n    print(i)\n" },
+        { type: "markup", text: "bot: Done.\n" },
+      ]);
+    }));
+  });
+
+  it("skips a header for the cell that's being continued", async () => {
+    const partial: Cell = { type: "code", text: "for i in range(3):\n" };
+    const input = "%python\n    print(i)\n%markdown\nbot: Done.\n";
+    const chunked = anyChunksOf(fc.constant(input));
+
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, continuing(partial, "code"))).toEqual([
+        { type: "code", text: "for i in range(3):\n    print(i)\n" },
+        { type: "markup", text: "bot: Done.\n" },
+      ]);
+    }));
+  });
+
+  it("skips an opening fence for the cell in the Markdown format", async () => {
+    const partial: Cell = { type: "code", text: "x = " };
+    const input = "```python\n1\n```\n";
+    expect(await copyCells([input], continuing(partial, "code", "markdown")))
+      .toEqual([
+        { type: "code", text: "x = 1\n" },
+      ]);
+  });
+
+  it("skips a header and cue for a Markdown cell", async () => {
+    const partial: Cell = { type: "markup", text: "bot: The answer " };
+    const input = "%markdown\nbot: is 42.\n";
+    expect(await copyCells([input], continuing(partial, "markdown"))).toEqual([
+      { type: "markup", text: "bot: The answer is 42.\n" },
+    ]);
+  });
+
+  it("starts a new cell at a header for another kind of cell", async () => {
+    const partial: Cell = { type: "code", text: "x = 1\n" };
+    const input = "%markdown\nbot: Done.\n";
+    expect(await copyCells([input], continuing(partial, "code"))).toEqual([
+      partial,
+      { type: "markup", text: "bot: Done.\n" },
+    ]);
+  });
+
+  it("doesn't end a code cell at a fence in the percent format", async () => {
+    const partial: Cell = { type: "code", text: 's = """\n' };
+    expect(await copyCells(['```\n"""\n'], continuing(partial, "code")))
+      .toEqual([
+        { type: "code", text: 's = """\n```\n"""\n' },
+      ]);
+  });
+
+  it("ends a code cell at a closing fence in the Markdown format", async () => {
+    const partial: Cell = { type: "code", text: "x = " };
+    const input = "1\n```\n\nThat sets x.\n";
+    const chunked = anyChunksOf(fc.constant(input));
+
+    await fc.assert(fc.asyncProperty(chunked, async ({ chunks }) => {
+      expect(await copyCells(chunks, continuing(partial, "code", "markdown")))
+        .toEqual([
+          { type: "code", text: "x = 1\n" },
+          { type: "markup", text: "bot: That sets x.\n" },
+        ]);
+    }));
+  });
+
+  it("converts code blocks after a continued Markdown cell", async () => {
+    const partial: Cell = { type: "markup", text: "bot: Try" };
+    const input = " this:\n```python\nx = 1\n```\n";
+    const options = continuing(partial, "markdown", "markdown");
+    expect(await copyCells([input], options)).toEqual([
+      { type: "markup", text: "bot: Try this:\n" },
+      { type: "code", text: "x = 1\n" },
+    ]);
+  });
+
+  it("leaves the cell alone if there's nothing more", async () => {
+    const partial: Cell = { type: "code", text: "x = 1\n" };
+    expect(await copyCells([], continuing(partial, "code"))).toEqual([partial]);
+  });
+});
+
 describe("checkCueLabel", () => {
-  for (const label of ["🤖", "bot", "gpt4", "0", "Ford Prefect"]) {
+  for (
+    const label of [
+      "🤖",
+      "bot",
+      "gpt4",
+      "0",
+      "Ford Prefect",
+      "🤖 {model}",
+      "{persona} ({time})",
+    ]
+  ) {
     it(`returns true for '${label}'`, async () => {
       expect(await checkCueLabel(label)).toBeTruthy();
     });
   }
 
-  for (const nonlabel of ["", " ", ":", " Marvin", "Marvin "]) {
+  for (const nonlabel of ["", " ", ":", " Marvin", "Marvin ", "a:{model}"]) {
     it(`returns false for '${nonlabel}'`, async () => {
       expect(await checkCueLabel(nonlabel)).toBeFalsy();
     });
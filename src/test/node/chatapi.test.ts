@@ -0,0 +1,232 @@
+import { expect } from "expect";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+import {
+  BotPrompt,
+  buildBotPrompt,
+  Cell,
+  continueRequest,
+} from "../../lib/botrequest";
+import {
+  ChatApiError,
+  chatMessages,
+  ChatService,
+  readChatStream,
+} from "../../lib/chatapi";
+import { OutputChannel } from "../../lib/llm";
+import { DONE, readAll, Reader } from "../../lib/streams";
+
+class TestChannel implements OutputChannel {
+  log = "";
+
+  clear() {
+    this.log = "";
+  }
+
+  appendLine(value: string): void {
+    this.log += value + "\n";
+  }
+
+  show(): void {
+  }
+}
+
+/** Returns a reader that sends each chunk in turn. */
+const readChunks = (chunks: string[]): Reader => {
+  let i = 0;
+  return {
+    read: async () => i < chunks.length ? chunks[i++] : DONE,
+  };
+};
+
+const event = (content: string, id?: string) =>
+  `data: ${JSON.stringify({ id, choices: [{ delta: { content } }] })}\n\n`;
+
+const prompt: BotPrompt = {
+  text: "%markdown\nhi\n%markdown\n🤖: hello\n%markdown\nbye\n",
+  tokens: 0,
+  omittedCells: 0,
+  images: [],
+  turns: [
+    { role: "user", text: "%markdown\nhi\n" },
+    { role: "assistant", text: "%markdown\n🤖: hello\n" },
+    { role: "user", text: "%markdown\nbye\n" },
+  ],
+};
+
+describe("chatMessages", () => {
+  it("sends each turn as a message after the system prompt", () => {
+    expect(chatMessages(prompt, "be nice")).toEqual([
+      { role: "system", content: "be nice" },
+      { role: "user", content: "%markdown\nhi\n" },
+      { role: "assistant", content: "%markdown\n🤖: hello\n" },
+      { role: "user", content: "%markdown\nbye\n" },
+    ]);
+  });
+
+  it("attaches images to the last user message", () => {
+    const image = {
+      mime: "image/png",
+      data: new Uint8Array([1, 2, 3]),
+      altText: "",
+    };
+    const messages = chatMessages({ ...prompt, images: [image] }, "");
+    expect(messages[2].content).toEqual([
+      { type: "text", text: "%markdown\nbye\n" },
+      /* eslint-disable-next-line @typescript-eslint/naming-convention */
+      { type: "image_url", image_url: { url: "data:image/png;base64,AQID" } },
+    ]);
+  });
+});
+
+describe("readChatStream", () => {
+  it("returns the content of each event", async () => {
+    const input = readChunks([event("Hel") + event("lo"), "data: [DONE]\n\n"]);
+    expect(await readAll(readChatStream(input))).toEqual("Hello");
+  });
+
+  it("handles events split across chunks", async () => {
+    const text = event("one") + ": comment\n\n" + event(" two");
+    const chunks = text.match(/.{1,5}/gs) ?? [];
+    expect(await readAll(readChatStream(readChunks(chunks)))).toEqual(
+      "one two",
+    );
+  });
+
+  it("stops at [DONE]", async () => {
+    const input = readChunks([event("a"), "data: [DONE]\n\n", event("b")]);
+    expect(await readAll(readChatStream(input))).toEqual("a");
+  });
+
+  it("reports the response id", async () => {
+    const ids: string[] = [];
+    const input = readChunks([
+      event("a", "chatcmpl-1"),
+      event("b", "chatcmpl-1"),
+    ]);
+    const reader = readChatStream(input, (id) => ids.push(id));
+    expect(await readAll(reader)).toEqual("ab");
+    expect(ids).toEqual(["chatcmpl-1"]);
+  });
+
+  it("throws if the server sends an error", async () => {
+    const input = readChunks(['data: {"error": {"message": "oops"}}\n\n']);
+    await expect(readAll(readChatStream(input))).rejects.toThrow("oops");
+  });
+});
+
+/** The parts of a chat completions request that the tests check. */
+interface RequestBody {
+  model: string;
+  messages: { role: string; content: unknown }[];
+  stream: boolean;
+  stop?: string[];
+  temperature?: number;
+}
+
+describe("ChatService", () => {
+  let server: http.Server;
+  let baseUrl = "";
+  let requestBody: RequestBody;
+  let status = 200;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => body += chunk);
+      req.on("end", () => {
+        requestBody = JSON.parse(body);
+        res.setHeader("content-type", "text/event-stream");
+        res.writeHead(status);
+        if (status === 200) {
+          res.end(
+            event("Hi ", "chatcmpl-1") + event("there", "chatcmpl-1") +
+              "data: [DONE]\n\n",
+          );
+        } else {
+          res.end("bad request");
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const port = (server.address() as AddressInfo).port;
+    baseUrl = `http://localhost:${port}/v1`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const newService = () =>
+    new ChatService({
+      baseUrl,
+      apiKey: "",
+      model: "test-model",
+      systemPrompt: "",
+      stop: "\n%output\n",
+    }, () => new TestChannel());
+
+  it("streams the reply", async () => {
+    status = 200;
+    const service = newService();
+    const { value, responseId } = await service.run(prompt, readAll);
+    expect(value).toEqual("Hi there");
+    expect(responseId).toEqual("chatcmpl-1");
+    expect(requestBody.model).toEqual("test-model");
+    expect(requestBody.stream).toBe(true);
+    expect(requestBody.stop).toEqual(["\n%output\n"]);
+    expect(requestBody.messages.map((m) => m.role)).toEqual([
+      "user",
+      "assistant",
+      "user",
+    ]);
+  });
+
+  it("sends the temperature only if it's set", async () => {
+    status = 200;
+    await newService().run(prompt, readAll);
+    expect(requestBody.temperature).toBeUndefined();
+
+    const service = new ChatService({
+      baseUrl,
+      apiKey: "",
+      model: "test-model",
+      systemPrompt: "",
+      stop: "",
+      temperature: 0.5,
+    }, () => new TestChannel());
+    await service.run(prompt, readAll);
+    expect(requestBody.temperature).toEqual(0.5);
+  });
+
+  it("asks the bot to continue a cut-off cell", async () => {
+    status = 200;
+    const cells: Cell[] = [
+      { languageId: "markdown", text: "count to 3" },
+      { languageId: "python", text: "for i in", fromBot: true },
+    ];
+    const continued = buildBotPrompt((idx) => cells[idx], 1, {
+      continueLast: true,
+    });
+    await newService().run(continued, readAll);
+    expect(requestBody.messages).toEqual([
+      { role: "user", content: "%markdown\ncount to 3\n" },
+      { role: "assistant", content: "%python\nfor i in\n" },
+      {
+        role: "user",
+        content: `%markdown\n${continueRequest("for i in")}\n`,
+      },
+    ]);
+  });
+
+  it("throws an error for a bad status", async () => {
+    status = 400;
+    const result = newService().run(prompt, readAll);
+    await expect(result).rejects.toBeInstanceOf(ChatApiError);
+    await expect(result).rejects.toMatchObject({
+      status: 400,
+      body: "bad request",
+    });
+  });
+});
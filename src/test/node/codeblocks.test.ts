@@ -0,0 +1,81 @@
+import expect from "expect";
+
+import { CodeBlockPolicy, parseCodeBlockAction } from "../../lib/codeblocks";
+
+describe("parseCodeBlockAction", () => {
+  it("parses each kind of setting", () => {
+    expect(parseCodeBlockAction("cell")).toEqual({ type: "cell" });
+    expect(parseCodeBlockAction("markdown")).toEqual({ type: "markdown" });
+    expect(parseCodeBlockAction("raw")).toEqual({ type: "raw" });
+    expect(parseCodeBlockAction("%%bash")).toEqual({
+      type: "magic",
+      firstLine: "%%bash",
+    });
+    expect(parseCodeBlockAction("!")).toEqual({ type: "prefix", prefix: "!" });
+    expect(parseCodeBlockAction("%sql ")).toEqual({
+      type: "prefix",
+      prefix: "%sql ",
+    });
+  });
+
+  it("returns undefined for anything else", () => {
+    expect(parseCodeBlockAction("")).toBeUndefined();
+    expect(parseCodeBlockAction("code")).toBeUndefined();
+  });
+});
+
+describe("CodeBlockPolicy", () => {
+  const policy = new CodeBlockPolicy("python", {
+    bash: "%%bash",
+    sh: "!",
+    typescript: "markdown",
+    nonsense: "whatever",
+    /* eslint-disable-next-line @typescript-eslint/naming-convention */
+    "*": "raw",
+  });
+
+  it("converts the notebook's language to a code cell", () => {
+    expect(policy.choose("python")).toEqual({ type: "cell" });
+    expect(policy.choose("py")).toEqual({ type: "cell" });
+  });
+
+  it("looks up other languages by name", () => {
+    expect(policy.choose("bash")).toEqual({
+      type: "magic",
+      firstLine: "%%bash",
+    });
+    expect(policy.choose("SH")).toEqual({ type: "prefix", prefix: "!" });
+  });
+
+  it("looks up aliases by the language's id", () => {
+    expect(policy.choose("ts")).toEqual({ type: "markdown" });
+  });
+
+  it("uses the rule for * when nothing else matches", () => {
+    expect(policy.choose("cobol")).toEqual({ type: "raw" });
+    expect(policy.choose("nonsense")).toEqual({ type: "raw" });
+  });
+
+  it("leaves code blocks without a language in Markdown", () => {
+    expect(policy.choose("")).toEqual({ type: "markdown" });
+  });
+
+  it("converts known languages if the notebook's language isn't known", () => {
+    const policy = new CodeBlockPolicy("", {});
+    expect(policy.choose("typescript")).toEqual({ type: "cell" });
+    expect(policy.choose("cobol")).toEqual({ type: "markdown" });
+  });
+
+  it("leaves other known languages in Markdown by default", () => {
+    const policy = new CodeBlockPolicy("python", {});
+    expect(policy.choose("bash")).toEqual({ type: "markdown" });
+    expect(policy.choose("r")).toEqual({ type: "markdown" });
+  });
+
+  it("creates code cells in another language in that language", () => {
+    const policy = new CodeBlockPolicy("python", { rust: "cell", cobol: "cell" });
+    expect(policy.choose("rust")).toEqual({ type: "cell", languageId: "rust" });
+    expect(policy.choose("rs")).toEqual({ type: "cell", languageId: "rust" });
+    expect(policy.choose("cobol")).toEqual({ type: "cell" });
+  });
+});
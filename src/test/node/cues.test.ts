@@ -0,0 +1,80 @@
+import expect from "expect";
+
+import { cuePattern, expandCue, isValidCueTemplate } from "../../lib/cues";
+
+const time = new Date(2024, 0, 2, 9, 5);
+
+describe("expandCue", () => {
+  it("fills in placeholders", () => {
+    const vars = { model: "gpt-4", persona: "Marvin", time };
+    expect(expandCue("🤖 {model}", vars)).toEqual("🤖 gpt-4");
+    expect(expandCue("{persona} ({time})", vars)).toEqual("Marvin (09:05)");
+  });
+
+  it("removes extra spaces when a placeholder is empty", () => {
+    const vars = { model: "", persona: "", time };
+    expect(expandCue("🤖 {model}", vars)).toEqual("🤖");
+    expect(expandCue("{persona} bot {model}", vars)).toEqual("bot");
+  });
+
+  it("falls back to an emoji when the cue is empty", () => {
+    expect(expandCue("{persona}", { model: "", persona: "", time }))
+      .toEqual("🤖");
+  });
+});
+
+describe("isValidCueTemplate", () => {
+  it("accepts templates with placeholders", () => {
+    expect(isValidCueTemplate("🤖")).toBe(true);
+    expect(isValidCueTemplate("🤖 {model}")).toBe(true);
+    expect(isValidCueTemplate("{persona} ({time})")).toBe(true);
+  });
+
+  it("rejects templates that would be hard to recognize", () => {
+    expect(isValidCueTemplate("")).toBe(false);
+    expect(isValidCueTemplate(" bot")).toBe(false);
+    expect(isValidCueTemplate("bot:")).toBe(false);
+    expect(isValidCueTemplate("bot\nbot")).toBe(false);
+  });
+
+  it("rejects templates that are only placeholders", () => {
+    expect(isValidCueTemplate("{model}")).toBe(false);
+    expect(isValidCueTemplate("{persona}")).toBe(false);
+    expect(isValidCueTemplate("{persona} {time}")).toBe(false);
+  });
+});
+
+describe("cuePattern", () => {
+  it("matches any expansion of the template", () => {
+    const pattern = cuePattern("🤖 {model}");
+    expect(pattern.test("🤖 gpt-4: Hello")).toBe(true);
+    expect(pattern.test("🤖 llama3.1:8b: Hello")).toBe(true);
+    expect(pattern.test("🤖: Hello")).toBe(true);
+    expect(pattern.test("Hello")).toBe(false);
+    expect(pattern.test("bot gpt-4: Hello")).toBe(false);
+  });
+
+  it("doesn't match a placeholder past the end of a label", () => {
+    const pattern = cuePattern("{persona} bot");
+    expect(pattern.test("Marvin bot: Hi")).toBe(true);
+    expect(pattern.test("Note: ask the bot: is this mine?")).toBe(false);
+  });
+
+  it("matches a cue at the end of the text", () => {
+    expect(cuePattern("bot").test("bot:")).toBe(true);
+  });
+
+  it("escapes special characters", () => {
+    const pattern = cuePattern("[{persona}] (bot)");
+    expect(pattern.test("[Marvin] (bot): Hi")).toBe(true);
+    expect(pattern.test("[Marvin] bot: Hi")).toBe(false);
+  });
+
+  it("recognizes expanded cues", () => {
+    const vars = { model: "gpt-4", persona: "Marvin", time };
+    for (const template of ["🤖", "🤖 {model}", "{persona} ({time})"]) {
+      expect(cuePattern(template).test(expandCue(template, vars) + ": Hi"))
+        .toBe(true);
+    }
+  });
+});
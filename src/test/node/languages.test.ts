@@ -0,0 +1,47 @@
+import expect from "expect";
+
+import {
+  defaultLanguageRegistry,
+  defaultLanguages,
+  LanguageRegistry,
+} from "../../lib/languages";
+
+describe("LanguageRegistry", () => {
+  it("finds languages by id or alias, ignoring case", () => {
+    expect(defaultLanguageRegistry.lookup("python")?.id).toEqual("python");
+    expect(defaultLanguageRegistry.lookup("python3")?.id).toEqual("python");
+    expect(defaultLanguageRegistry.lookup("Rust")?.id).toEqual("rust");
+    expect(defaultLanguageRegistry.lookup("bash")?.id).toEqual("shellscript");
+    expect(defaultLanguageRegistry.lookup("cobol")).toBeUndefined();
+  });
+
+  it("lists every id and alias as a fence name", () => {
+    const names = defaultLanguageRegistry.fenceNames;
+    expect(names).toContain("typescript");
+    expect(names).toContain("ts");
+    expect(names).toContain("tsx");
+  });
+
+  it("lets later entries change a language", () => {
+    const registry = new LanguageRegistry([
+      ...defaultLanguages,
+      { id: "python", aliases: ["snake"] },
+    ]);
+    expect(registry.ids).toEqual(defaultLanguageRegistry.ids);
+    expect(registry.lookup("snake")?.name).toEqual("Python");
+    expect(registry.lookup("py")).toBeUndefined();
+  });
+
+  it("fills in the system prompt template", () => {
+    const prompt = defaultLanguageRegistry.systemPrompt("julia") ?? "";
+    expect(prompt).toContain("Markdown and Julia cells");
+    expect(prompt).toContain("#julia");
+    expect(prompt).not.toContain("{");
+  });
+
+  it("returns undefined for a language without a system prompt", () => {
+    const registry = new LanguageRegistry([{ id: "ocaml" }]);
+    expect(registry.systemPrompt("ocaml")).toBeUndefined();
+    expect(registry.systemPrompt("cobol")).toBeUndefined();
+  });
+});
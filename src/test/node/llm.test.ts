@@ -76,5 +76,57 @@ describe("llm.Service", () => {
           "echo --system $systemPrompt --model gpt5 -o stop '\\n#done\\n' --asdf\n\n",
       );
     });
+
+    it("sends attachments with their types", async () => {
+      const config: llm.Config = {
+        path: "echo",
+        systemPrompt: "",
+        model: "",
+        stop: "",
+        extraArgs: [],
+      };
+
+      const testChannel = new TestChannel();
+      const service = new llm.Service(config, () => testChannel);
+
+      const attachments = [{ path: "/tmp/image-1.png", mime: "image/png" }];
+      const result = await service.run("", readAll, attachments);
+      expect(result).toEqual(
+        "--attachment-type /tmp/image-1.png image/png\n",
+      );
+      expect(testChannel.log).toEqual(
+        "echo --attachment-type /tmp/image-1.png image/png\n\n",
+      );
+    });
+  });
+});
+
+describe("findResponseId", () => {
+  const started = new Date("2024-05-01T12:00:00Z");
+  /* eslint-disable @typescript-eslint/naming-convention */
+  const entry = (id: string, prompt: string, datetime_utc: string) => ({
+    id,
+    prompt,
+    datetime_utc,
+  });
+  /* eslint-enable @typescript-eslint/naming-convention */
+
+  it("returns the id of the entry for this prompt", () => {
+    const entries = [
+      entry("other", "hello?", "2024-05-01T12:00:05.000000"),
+      entry("mine", "hi", "2024-05-01T12:00:01.500000"),
+    ];
+    expect(llm.findResponseId(entries, "hi", started)).toEqual("mine");
+  });
+
+  it("ignores an entry for the same prompt from before the reply", () => {
+    const entries = [entry("old", "hi", "2024-05-01T11:59:59.000000")];
+    expect(llm.findResponseId(entries, "hi", started)).toEqual("");
+  });
+
+  it("returns the empty string for output it doesn't understand", () => {
+    expect(llm.findResponseId([], "hi", started)).toEqual("");
+    expect(llm.findResponseId({}, "hi", started)).toEqual("");
+    expect(llm.findResponseId([null, 1], "hi", started)).toEqual("");
   });
 });
@@ -0,0 +1,51 @@
+import expect from "expect";
+
+import {
+  describeProvenance,
+  hashText,
+  isProvenance,
+  makeProvenance,
+} from "../../lib/provenance";
+
+describe("makeProvenance", () => {
+  const time = new Date(Date.UTC(2024, 0, 2, 3, 4, 5));
+
+  it("hashes the prompts", () => {
+    const p = makeProvenance("gpt-4", "Be helpful.", "%markdown\nhi\n", time);
+    expect(p).toEqual({
+      model: "gpt-4",
+      systemPromptHash: hashText("Be helpful."),
+      promptHash: hashText("%markdown\nhi\n"),
+      time: "2024-01-02T03:04:05.000Z",
+    });
+    expect(p.promptHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(p.promptHash).not.toEqual(p.systemPromptHash);
+  });
+
+  it("round-trips through JSON", () => {
+    const p = { ...makeProvenance("", "", "x", time), responseId: "01abc" };
+    expect(isProvenance(JSON.parse(JSON.stringify(p)))).toBe(true);
+  });
+
+  it("describes where a cell came from", () => {
+    const p = makeProvenance("", "", "x", time);
+    expect(describeProvenance(p)).toContain("the default model");
+    expect(describeProvenance({ ...p, responseId: "01abc" })).toContain(
+      "Response id: 01abc",
+    );
+  });
+});
+
+describe("isProvenance", () => {
+  it("rejects incomplete metadata", () => {
+    expect(isProvenance(undefined)).toBe(false);
+    expect(isProvenance({ model: "gpt-4" })).toBe(false);
+    expect(isProvenance({
+      model: "gpt-4",
+      systemPromptHash: "a",
+      promptHash: "b",
+      time: "c",
+      responseId: 1,
+    })).toBe(false);
+  });
+});
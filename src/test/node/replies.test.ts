@@ -0,0 +1,100 @@
+import expect from "expect";
+
+import { Cell } from "../../lib/botrequest";
+import { findReply, findReplyCells } from "../../lib/replies";
+
+const user = (text: string): Cell => ({ languageId: "markdown", text });
+const bot = (text: string, languageId = "markdown"): Cell => ({
+  languageId,
+  text,
+  fromBot: true,
+});
+
+describe("findReply", () => {
+  const expected = { question: 1, start: 2, end: 4, trailingBlank: true };
+  const cells = [
+    user("intro"),
+    user("question"),
+    bot("🤖: answer"),
+    bot("print(1)", "python"),
+    user(""),
+  ];
+
+  it("finds the reply after a question", () => {
+    expect(findReply(cells, 1)).toEqual(expected);
+  });
+
+  it("finds the reply from any of its cells", () => {
+    expect(findReply(cells, 2)).toEqual(expected);
+    expect(findReply(cells, 3)).toEqual(expected);
+  });
+
+  it("finds the reply from the empty cell after it", () => {
+    expect(findReply(cells, 4)).toEqual(expected);
+  });
+
+  it("returns undefined if there's no reply", () => {
+    expect(findReply(cells, 0)).toBeUndefined();
+    expect(findReply([user("question")], 0)).toBeUndefined();
+  });
+
+  it("returns undefined if nothing comes before the reply", () => {
+    expect(findReply([bot("🤖: hi"), user("")], 0)).toBeUndefined();
+  });
+
+  it("stops at the next cell that the user wrote", () => {
+    const cells = [
+      user("question"),
+      bot("🤖: answer"),
+      user("thanks"),
+      bot("🤖: you're welcome"),
+    ];
+    expect(findReply(cells, 0)).toEqual({
+      question: 0,
+      start: 1,
+      end: 2,
+      trailingBlank: false,
+    });
+    expect(findReply(cells, 3)).toEqual({
+      question: 2,
+      start: 3,
+      end: 4,
+      trailingBlank: false,
+    });
+  });
+
+  it("recognizes older replies by their cue", () => {
+    const cells = [
+      user("question"),
+      user("🤖: answer"),
+      { languageId: "python", text: "print(1)" },
+      user("more"),
+    ];
+    expect(findReply(cells, 0, "🤖")).toEqual({
+      question: 0,
+      start: 1,
+      end: 3,
+      trailingBlank: false,
+    });
+    expect(findReply(cells, 0)).toBeUndefined();
+  });
+});
+
+describe("findReplyCells", () => {
+  const ids = [undefined, "a", "a", "b", "b", undefined];
+
+  it("finds the cells with the same reply id", () => {
+    expect(findReplyCells(ids, 1)).toEqual({ start: 1, end: 3 });
+    expect(findReplyCells(ids, 2)).toEqual({ start: 1, end: 3 });
+    expect(findReplyCells(ids, 4)).toEqual({ start: 3, end: 5 });
+  });
+
+  it("uses the reply above a cell that isn't in one", () => {
+    expect(findReplyCells(ids, 5)).toEqual({ start: 3, end: 5 });
+  });
+
+  it("returns undefined if there's no reply", () => {
+    expect(findReplyCells(ids, 0)).toBeUndefined();
+    expect(findReplyCells([undefined, undefined], 1)).toBeUndefined();
+  });
+});
@@ -0,0 +1,152 @@
+import expect from "expect";
+import * as fc from "fast-check";
+
+import {
+  defaultConverters,
+  formatJson,
+  htmlToText,
+  OutputConverters,
+  tableToMarkdown,
+} from "../../lib/richoutput";
+
+const dataFrameHtml = `<div>
+<style scoped>
+    .dataframe tbody tr th:only-of-type {
+        vertical-align: middle;
+    }
+</style>
+<table border="1" class="dataframe">
+  <thead>
+    <tr style="text-align: right;">
+      <th></th>
+      <th>name</th>
+      <th>score</th>
+    </tr>
+  </thead>
+  <tbody>
+    <tr>
+      <th>0</th>
+      <td>Ada &amp; Bob</td>
+      <td>1.5</td>
+    </tr>
+    <tr>
+      <th>1</th>
+      <td>a|b</td>
+      <td>NaN</td>
+    </tr>
+  </tbody>
+</table>
+<p>2 rows × 2 columns</p>
+</div>`;
+
+describe("tableToMarkdown", () => {
+  it("converts a DataFrame to a Markdown table", () => {
+    expect(tableToMarkdown(dataFrameHtml)).toEqual(
+      "|  | name | score |\n" +
+        "| --- | --- | --- |\n" +
+        "| 0 | Ada & Bob | 1.5 |\n" +
+        "| 1 | a\\|b | NaN |",
+    );
+  });
+
+  it("pads rows and expands colspan", () => {
+    const html = `<table><tr><th colspan="2">ab</th><th>c</th></tr>` +
+      `<tr><td>1</td></tr></table>`;
+    expect(tableToMarkdown(html)).toEqual(
+      "| ab |  | c |\n| --- | --- | --- |\n| 1 |  |  |",
+    );
+  });
+
+  it("returns an empty string for a table without rows", () => {
+    expect(tableToMarkdown("<table></table>")).toEqual("");
+  });
+});
+
+describe("htmlToText", () => {
+  it("removes styles and keeps text around tables", () => {
+    const text = htmlToText(dataFrameHtml);
+    expect(text).not.toContain("vertical-align");
+    expect(text.startsWith("|  | name | score |\n")).toBe(true);
+    expect(text.endsWith("\n\n2 rows × 2 columns")).toBe(true);
+  });
+
+  it("keeps a NUL character from an entity next to a table", () => {
+    const html = "<p>&#0;0&#0;</p><table><tr><td>x</td></tr></table>";
+    expect(htmlToText(html)).toEqual("\u00000\u0000\n\n| x |\n| --- |");
+  });
+
+  it("converts lists and line breaks", () => {
+    expect(htmlToText("<b>Items:</b><ul><li>one</li><li>two &lt;3</li></ul>"))
+      .toEqual("Items:\n\n- one\n\n- two <3");
+    expect(htmlToText("a<br>b<br/>c")).toEqual("a\nb\nc");
+  });
+
+  it("only normalizes whitespace in plain text", () => {
+    const plain = fc.stringOf(fc.char().filter((c) => !"<>&".includes(c)));
+    fc.assert(fc.property(plain, (text) => {
+      expect(htmlToText(text)).toEqual(
+        text.split("\n").map((line) => line.replace(/[ \t]+/g, " ").trim())
+          .join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+      );
+    }));
+  });
+});
+
+describe("formatJson", () => {
+  it("pretty-prints JSON", () => {
+    expect(formatJson('{"a":[1,2]}')).toEqual('{\n  "a": [\n    1,\n    2\n  ]\n}');
+  });
+
+  it("returns invalid JSON unchanged", () => {
+    expect(formatJson("{oops")).toEqual("{oops");
+  });
+});
+
+describe("OutputConverters", () => {
+  it("prefers converters in the order they were registered", () => {
+    const items = [
+      { mime: "text/html", data: "<i>hi</i>" },
+      { mime: "text/plain", data: "plain hi" },
+    ];
+    expect(defaultConverters.convert(items)).toEqual("plain hi");
+    expect(defaultConverters.convert(items.slice(0, 1))).toEqual("hi");
+  });
+
+  it("prefers an HTML table to plain text, and Markdown to plain text", () => {
+    const dataFrame = [
+      { mime: "text/plain", data: "   name  score\n0   Ada    1.5" },
+      { mime: "text/html", data: dataFrameHtml },
+    ];
+    expect(defaultConverters.convert(dataFrame)).toEqual(
+      htmlToText(dataFrameHtml),
+    );
+
+    const markdown = [
+      { mime: "text/plain", data: "<IPython.core.display.Markdown object>" },
+      { mime: "text/markdown", data: "**hi**" },
+    ];
+    expect(defaultConverters.convert(markdown)).toEqual("**hi**");
+  });
+
+  it("falls back to another format if one is too large", () => {
+    const converters = new OutputConverters(10)
+      .register("text/html", htmlToText)
+      .register("text/plain", (data) => data);
+    expect(converters.convert([
+      { mime: "text/html", data: "<p>a long paragraph</p>" },
+      { mime: "text/plain", data: "short" },
+    ])).toEqual("short");
+  });
+
+  it("returns undefined when no converter matches", () => {
+    expect(defaultConverters.convert([{ mime: "image/png", data: "" }]))
+      .toBeUndefined();
+  });
+
+  it("doesn't convert items that are too large", () => {
+    const converters = new OutputConverters(3)
+      .register("text/html", htmlToText);
+    expect(converters.convert([{ mime: "text/html", data: "<p>hi</p>" }]))
+      .toEqual("[text/html] (too large to show)");
+  });
+});
@@ -208,6 +208,58 @@ describe("Scanner", () => {
     });
   });
 
+  describe("peekLine", () => {
+    it("returns an empty string when there's no input", async () => {
+      const scanner = new Scanner(new TestReader([]));
+      expect(await scanner.peekLine()).toEqual("");
+    });
+
+    it("returns the same line that takeLine takes", async () => {
+      const chunked = anyChunksOf(fc.unicodeString({ minLength: 1 }));
+
+      await fc.assert(
+        fc.asyncProperty(chunked, async ({ original, chunks }) => {
+          const scanner = new Scanner(new TestReader(chunks));
+          const lineCount = original.split("\n").length;
+          for (let i = 0; i < lineCount; i++) {
+            const line = await scanner.peekLine();
+            expect(await scanner.takeLine()).toEqual(line);
+          }
+        }),
+      );
+    });
+  });
+
+  describe("takeChunkBefore", () => {
+    it("returns an empty string when there's no input", async () => {
+      const scanner = new Scanner(new TestReader([]));
+      expect(await scanner.takeChunkBefore("</end>")).toEqual("");
+    });
+
+    it("takes everything before the token and stops there", async () => {
+      const text = fc.unicodeString().filter((s) => !s.includes("</end>"));
+      const chunked = anyChunksOf(
+        fc.tuple(text, text).map(([a, b]) => `${a}</end>${b}`),
+      );
+
+      await fc.assert(
+        fc.asyncProperty(chunked, async ({ original, chunks }) => {
+          const scanner = new Scanner(new TestReader(chunks));
+          let before = "";
+          while (true) {
+            const chunk = await scanner.takeChunkBefore("</end>");
+            if (chunk === "") {
+              break;
+            }
+            before += chunk;
+          }
+          expect(before).toEqual(original.slice(0, original.indexOf("</end>")));
+          expect(await scanner.skipToken("</end>")).toBe(true);
+        }),
+      );
+    });
+  });
+
   describe("takeLine", () => {
     it("returns an empty string when there's no input", async () => {
       const scanner = new Scanner(new TestReader([]));
@@ -1,6 +1,6 @@
 import * as assert from "assert";
 import { Readable } from "stream";
-import { copyStream, Reader, DONE } from "../../lib/streams";
+import { abortable, copyStream, Reader, DONE } from "../../lib/streams";
 
 const collectChunks = async (r: Reader): Promise<string[]> => {
   const chunks = [] as string[];
@@ -55,3 +55,30 @@ describe('copyStream', () => {
       assert.ok(source.destroyed);
     });
 });
+
+describe("abortable", () => {
+  const STOP = Symbol("STOP");
+
+  it("passes chunks through until aborted", async () => {
+    const controller = new AbortController();
+    const chunks = ["a", "b"];
+    const input: Reader = {
+      read: async () => chunks.shift() ?? DONE,
+    };
+    const reader = abortable(input, controller.signal, STOP);
+    assert.strictEqual(await reader.read(), "a");
+    controller.abort();
+    await assert.rejects(reader.read(), (e) => e === STOP);
+  });
+
+  it("stops a read that's waiting", async () => {
+    const controller = new AbortController();
+    const input: Reader = {
+      read: () => new Promise(() => {}),
+    };
+    const reader = abortable(input, controller.signal, STOP);
+    const result = reader.read();
+    controller.abort();
+    await assert.rejects(result, (e) => e === STOP);
+  });
+});
@@ -0,0 +1,119 @@
+import expect from "expect";
+import * as fc from "fast-check";
+
+import { condenseTraceback, stripAnsi } from "../../lib/tracebacks";
+
+const ipythonTraceback = [
+  "\x1b[0;31m---------------------------------------------------------------------------\x1b[0m",
+  "\x1b[0;31mFileNotFoundError\x1b[0m                         Traceback (most recent call last)",
+  "Cell \x1b[0;32mIn[3], line 4\x1b[0m",
+  "\x1b[1;32m      2\x1b[0m \x1b[38;5;28;01mimport\x1b[39;00m \x1b[38;5;21;01mpandas\x1b[39;00m",
+  "\x1b[0;32m----> 4\x1b[0m pd\x1b[38;5;241m.\x1b[39mread_csv(\x1b[38;5;124m\"\x1b[39m\x1b[38;5;124mmissing.csv\x1b[39m\x1b[38;5;124m\"\x1b[39m)",
+  "",
+  "File \x1b[0;32m~/lib/python3.11/site-packages/pandas/io/parsers/readers.py:912\x1b[0m, in \x1b[0;36mread_csv\x1b[0;34m(filepath)\x1b[0m",
+  "\x1b[0;32m--> 912\x1b[0m \x1b[38;5;28;01mreturn\x1b[39;00m _read(filepath, kwds)",
+  "",
+  "File \x1b[0;32m~/lib/python3.11/site-packages/pandas/io/parsers/readers.py:577\x1b[0m, in \x1b[0;36m_read\x1b[0;34m(filepath, kwds)\x1b[0m",
+  "\x1b[0;32m--> 577\x1b[0m parser \x1b[38;5;241m=\x1b[39m TextFileReader(filepath, \x1b[38;5;241m*\x1b[39m\x1b[38;5;241m*\x1b[39mkwds)",
+  "",
+  "File \x1b[0;32m~/lib/python3.11/site-packages/pandas/io/common.py:859\x1b[0m, in \x1b[0;36mget_handle\x1b[0;34m(path)\x1b[0m",
+  "\x1b[0;32m--> 859\x1b[0m     handle \x1b[38;5;241m=\x1b[39m \x1b[38;5;28mopen\x1b[39m(handle)",
+  "",
+  "\x1b[0;31mFileNotFoundError\x1b[0m: [Errno 2] No such file or directory: 'missing.csv'",
+].join("\n");
+
+describe("stripAnsi", () => {
+  it("removes color codes", () => {
+    expect(stripAnsi("\x1b[0;31mError\x1b[0m: \x1b[38;5;241mbad\x1b[39m"))
+      .toEqual("Error: bad");
+  });
+
+  it("removes hyperlinks", () => {
+    expect(stripAnsi("\x1b]8;;file:///x.py\x07x.py\x1b]8;;\x07")).toEqual(
+      "x.py",
+    );
+  });
+
+  it("doesn't change text without escape sequences", () => {
+    const text = fc.unicodeString().filter((s) => !s.includes("\x1b"));
+    fc.assert(fc.property(text, (s) => {
+      expect(stripAnsi(s)).toEqual(s);
+    }));
+  });
+});
+
+describe("condenseTraceback", () => {
+  it("leaves the stack unchanged for the 'none' style", () => {
+    expect(condenseTraceback(ipythonTraceback, "none")).toEqual(
+      ipythonTraceback,
+    );
+  });
+
+  it("only removes color codes for the 'plain' style", () => {
+    expect(condenseTraceback(ipythonTraceback, "plain")).toEqual(
+      stripAnsi(ipythonTraceback),
+    );
+  });
+
+  it("condenses library frames in an IPython traceback", () => {
+    expect(condenseTraceback(ipythonTraceback, "python")).toEqual([
+      "---------------------------------------------------------------------------",
+      "FileNotFoundError                         Traceback (most recent call last)",
+      "Cell In[3], line 4",
+      "      2 import pandas",
+      '----> 4 pd.read_csv("missing.csv")',
+      "",
+      "... 2 library frames omitted ...",
+      "",
+      "File ~/lib/python3.11/site-packages/pandas/io/common.py:859, in get_handle(path)",
+      "--> 859     handle = open(handle)",
+      "",
+      "FileNotFoundError: [Errno 2] No such file or directory: 'missing.csv'",
+    ].join("\n"));
+  });
+
+  it("collapses repeated frames in a plain Python traceback", () => {
+    const frame = '  File "/home/me/rec.py", line 2, in f\n    return f(n + 1)';
+    const stack = [
+      "Traceback (most recent call last):",
+      frame,
+      frame,
+      frame,
+      "RecursionError: maximum recursion depth exceeded",
+    ].join("\n");
+
+    expect(condenseTraceback(stack, "python")).toEqual([
+      "Traceback (most recent call last):",
+      frame,
+      "... previous frame repeated 2 more times ...",
+      "RecursionError: maximum recursion depth exceeded",
+    ].join("\n"));
+  });
+
+  it("condenses library frames in a JavaScript stack trace", () => {
+    const stack = [
+      "TypeError: Cannot read properties of undefined (reading 'x')",
+      "    at parse (https://deno.land/std@0.200.0/csv/parse.ts:10:3)",
+      "    at load (file:///home/me/node_modules/lib/index.js:5:1)",
+      "    at <anonymous>:3:7",
+      "    at ext:core/01_core.js:100:2",
+      "    at ext:runtime/40_jupyter.js:12:9",
+    ].join("\n");
+
+    expect(condenseTraceback(stack, "javascript")).toEqual([
+      "TypeError: Cannot read properties of undefined (reading 'x')",
+      "    at parse (https://deno.land/std@0.200.0/csv/parse.ts:10:3)",
+      "... 1 library frame omitted ...",
+      "    at <anonymous>:3:7",
+      "... 2 library frames omitted ...",
+    ].join("\n"));
+  });
+
+  it("doesn't change a stack without frames", () => {
+    const text = fc.unicodeString().filter((s) => !s.includes("\x1b"))
+      .filter((s) => !s.includes(" at ") && !s.includes("File"));
+    fc.assert(fc.property(text, (s) => {
+      expect(condenseTraceback(s, "javascript")).toEqual(s);
+    }));
+  });
+});
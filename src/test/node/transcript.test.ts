@@ -0,0 +1,84 @@
+import expect from "expect";
+
+import {
+  allOutputKinds,
+  allTranscriptFormatNames,
+  defaultTranscriptFormat,
+  getTranscriptFormat,
+} from "../../lib/transcript";
+
+describe("getTranscriptFormat", () => {
+  for (const name of allTranscriptFormatNames) {
+    it(`finds the ${name} format`, () => {
+      expect(getTranscriptFormat(name).name).toEqual(name);
+    });
+  }
+
+  it("returns the default format for an unknown name", () => {
+    expect(getTranscriptFormat("nope")).toBe(defaultTranscriptFormat);
+  });
+});
+
+describe("percent format", () => {
+  const format = getTranscriptFormat("percent");
+
+  it("writes a header line before each cell and output", () => {
+    expect(format.formatCell("python", "x = 1")).toEqual("%python\nx = 1\n");
+    expect(format.formatOutput("stderr", "oops")).toEqual("%stderr\noops\n");
+    expect(format.cellHeader("markdown")).toEqual("%markdown\n");
+    expect(format.cellFooter).toBeUndefined();
+  });
+
+  it("starts each output the same way in the bot's reply", () => {
+    for (const kind of allOutputKinds) {
+      expect(format.formatOutput(kind, "x")).toEqual(
+        format.outputHeader(kind) + "x\n",
+      );
+    }
+  });
+});
+
+describe("xml format", () => {
+  const format = getTranscriptFormat("xml");
+
+  it("wraps cells and outputs in tags", () => {
+    expect(format.formatCell("python", "x = 1")).toEqual(
+      '<cell lang="python">\nx = 1\n</cell>\n',
+    );
+    expect(format.formatOutput("output", "1")).toEqual(
+      "<output>\n1\n</output>\n",
+    );
+    expect(format.cellHeader("python")).toEqual('<cell lang="python">\n');
+    expect(format.cellFooter).toEqual("</cell>\n");
+  });
+
+  it("starts and ends each output the same way in the bot's reply", () => {
+    for (const kind of allOutputKinds) {
+      expect(format.formatOutput(kind, "x")).toEqual(
+        format.outputHeader(kind) + "x\n" + format.outputFooter?.(kind),
+      );
+    }
+  });
+});
+
+describe("markdown format", () => {
+  const format = getTranscriptFormat("markdown");
+
+  it("writes code cells as fenced code blocks", () => {
+    expect(format.formatCell("markdown", "Hi")).toEqual("Hi\n\n");
+    expect(format.formatCell("python", "x = 1")).toEqual(
+      "```python\nx = 1\n```\n\n",
+    );
+    expect(format.formatOutput("output", "1")).toEqual("```output\n1\n```\n\n");
+    expect(format.cellHeader("python")).toBeUndefined();
+  });
+
+  it("uses a longer fence when the text contains backticks", () => {
+    expect(format.formatCell("markdown", "```js\nx\n```")).toEqual(
+      "```js\nx\n```\n\n",
+    );
+    expect(format.formatOutput("output", "````")).toEqual(
+      "`````output\n````\n`````\n\n",
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { expect } from "expect";
+
+import { applyOverrides, Config, getConfig } from "../../lib/config";
+
+describe("applyOverrides", () => {
+  const config: Config = {
+    ...getConfig("python"),
+    model: "",
+    temperature: undefined,
+    tokenBudget: 8000,
+    tokenBudgets: { "default": 8000, "small": 2000 },
+  };
+
+  it("uses the budget of an overridden model", () => {
+    const overridden = applyOverrides(config, { model: "small" });
+    expect(overridden.model).toBe("small");
+    expect(overridden.tokenBudget).toBe(2000);
+  });
+
+  it("uses the default budget for a model without one", () => {
+    expect(applyOverrides(config, { model: "other" }).tokenBudget).toBe(8000);
+  });
+
+  it("keeps the budget when only the temperature changes", () => {
+    const overridden = applyOverrides(config, { temperature: 1 });
+    expect(overridden.temperature).toBe(1);
+    expect(overridden.tokenBudget).toBe(8000);
+  });
+});
@@ -1,7 +1,7 @@
 import * as assert from "assert";
 import * as vscode from "vscode";
 
-import { NotebookWriter } from "../../lib/notebooks";
+import { BackgroundNotebookWriter, NotebookWriter } from "../../lib/notebooks";
 
 interface Cell {
   languageId: "markdown" | "python";
@@ -152,3 +152,52 @@ describe("NotebookWriter", () => {
     });
   });
 });
+
+describe("BackgroundNotebookWriter", () => {
+  before(async function () {
+    const noteEd = await setupNotebook([{
+      languageId: "python",
+      text: "First line\n",
+    }]);
+    this.noteEd = noteEd;
+  });
+
+  after(async function () {
+    await vscode.commands.executeCommand("workbench.action.closeActiveEditor");
+  });
+
+  it("writes cells without moving the selection", async function () {
+    this.timeout(3000);
+    const noteEd = this.noteEd as vscode.NotebookEditor;
+    const writer = new BackgroundNotebookWriter(
+      noteEd.notebook.cellAt(0),
+      "python",
+    );
+    assert.ok(await writer.write("Answer\n"), "write failed");
+    assert.ok(await writer.startCodeCell());
+    assert.ok(await writer.write("print(1)\n"), "write failed");
+    assert.ok(await writer.close());
+
+    checkCells(["First line\n", "Answer", "print(1)", ""]);
+    checkCellKinds([
+      vscode.NotebookCellKind.Code,
+      vscode.NotebookCellKind.Markup,
+      vscode.NotebookCellKind.Code,
+      vscode.NotebookCellKind.Markup,
+    ]);
+    assert.strictEqual(noteEd.selection.start, 0);
+  });
+
+  it("stops writing when the reply is stopped", async function () {
+    const noteEd = this.noteEd as vscode.NotebookEditor;
+    const controller = new AbortController();
+    const writer = new BackgroundNotebookWriter(
+      noteEd.notebook.cellAt(0),
+      "python",
+      {},
+      controller.signal,
+    );
+    controller.abort();
+    assert.strictEqual(await writer.write("more"), false);
+  });
+});